@@ -1,7 +1,13 @@
+interface TotpPayload {
+  code: string;
+  expiresAt: number;
+}
+
 interface AutofillPayload {
   username: string;
   password: string;
   label: string;
+  totp?: TotpPayload;
 }
 
 interface RegistrationPayload {
@@ -65,7 +71,56 @@ function guessUsernameField(passwordField: InputElement): InputElement | null {
   return null;
 }
 
-function fillCredentials(payload: AutofillPayload): { success: boolean; details: string } {
+const OTP_NAME_PATTERN = /otp|totp|2fa|mfa|one.?time|verification.?code|auth.?code|security.?code/i;
+
+function findOtpField(): HTMLInputElement | null {
+  const byAutocomplete = Array.from(
+    document.querySelectorAll<HTMLInputElement>('input[autocomplete="one-time-code" i]'),
+  ).find((input) => isVisible(input));
+  if (byAutocomplete) {
+    return byAutocomplete;
+  }
+  const candidates = Array.from(document.querySelectorAll<HTMLInputElement>(
+    'input[type="text" i], input[type="tel" i], input[type="number" i], input:not([type])',
+  ));
+  return candidates.find(
+    (input) =>
+      isVisible(input) &&
+      OTP_NAME_PATTERN.test(`${input.name} ${input.id} ${input.placeholder}`),
+  ) ?? null;
+}
+
+// Code waiting for a one-time code field that single-page logins render after the password step.
+let pendingTotp: TotpPayload | null = null;
+
+function fillTotp(totp: TotpPayload): boolean {
+  if (totp.expiresAt < Date.now()) {
+    return false;
+  }
+  const field = findOtpField();
+  if (!field) {
+    pendingTotp = totp;
+    return false;
+  }
+  setValue(field, totp.code);
+  pendingTotp = null;
+  return true;
+}
+
+function fillPendingTotp() {
+  if (!pendingTotp) {
+    return;
+  }
+  if (pendingTotp.expiresAt < Date.now()) {
+    pendingTotp = null;
+    return;
+  }
+  fillTotp(pendingTotp);
+}
+
+function fillCredentials(
+  payload: AutofillPayload,
+): { success: boolean; details: string; totpFilled?: boolean } {
   const passwordFields = Array.from(
     document.querySelectorAll<HTMLInputElement>('input[type="password" i]'),
   ).filter((input) => isVisible(input));
@@ -82,7 +137,12 @@ function fillCredentials(payload: AutofillPayload): { success: boolean; details:
     setValue(usernameField, payload.username);
   }
 
-  return { success: true, details: "Form filled." };
+  const totpFilled = payload.totp ? fillTotp(payload.totp) : false;
+  return {
+    success: true,
+    details: totpFilled ? "Form filled, including the one-time code." : "Form filled.",
+    totpFilled,
+  };
 }
 
 function findRegistrationContext(): RegistrationContext | null {
@@ -199,7 +259,10 @@ function enforceStrongPasswords() {
 
 enforceStrongPasswords();
 
-const mutationObserver = new MutationObserver(() => enforceStrongPasswords());
+const mutationObserver = new MutationObserver(() => {
+  enforceStrongPasswords();
+  fillPendingTotp();
+});
 mutationObserver.observe(document.documentElement, { childList: true, subtree: true });
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
@@ -209,6 +272,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message?.type === "vaultlight.fillTotp") {
+    sendResponse({ success: fillTotp(message.payload as TotpPayload) });
+    return true;
+  }
+
   if (message?.type === "vaultlight.registrationFill") {
     const result = fillRegistrationForm(message.payload as RegistrationPayload);
     sendResponse(result);
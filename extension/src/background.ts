@@ -1,8 +1,5 @@
-import {
-  decryptVault,
-  hydrateExposures,
-  encryptVault,
-} from "./shared/crypto";
+import type { VaultKeyring } from "../../src/core/crypto/cryptoClient";
+import { generateTotp } from "../../src/core/otp/totp";
 import type {
   EncryptedVault,
   VaultPayload,
@@ -19,10 +16,12 @@ import {
   storeSecurityState,
   type SecurityState,
 } from "./shared/security";
+import { openExtensionVault, sealExtensionVault } from "./shared/vault";
 
 const STORAGE_KEY = "vaultlight.encryptedVault";
 const META_KEY = "vaultlight.meta";
 const AUTO_LOCK_MS = 5 * 60 * 1000;
+const PENDING_TOTP_MS = 2 * 60 * 1000;
 const EXTENSION_DISABLED = true;
 const DISABLED_MESSAGE =
   `🚧 Vaultlight Autofill is disabled (WIP).`;
@@ -32,7 +31,9 @@ let vaultMeta: VaultMeta | null = null;
 let decryptedVault: VaultPayload | null = null;
 let lockTimer: number | undefined;
 let securityState: SecurityState = { ...DEFAULT_SECURITY_STATE };
-let masterSecret: string | null = null;
+let keyring: VaultKeyring | null = null;
+// Tabs where the password was filled but the one-time code field has not shown up yet.
+const pendingTotpFills = new Map<number, { entryId: string; expiresAt: number }>();
 
 const DISABLED_STATUS = {
   success: false,
@@ -202,7 +203,8 @@ function scheduleLock() {
 
 function lockVault(reason?: string) {
   decryptedVault = null;
-  masterSecret = null;
+  keyring = null;
+  pendingTotpFills.clear();
   if (lockTimer) {
     clearTimeout(lockTimer);
     lockTimer = undefined;
@@ -224,6 +226,48 @@ chrome.runtime.onStartup.addListener(() => {
   void loadFromStorage();
 });
 
+async function buildTotpPayload(entry: VaultEntry) {
+  if (!entry.totp) {
+    return undefined;
+  }
+  const { code, remainingMs } = await generateTotp(entry.totp);
+  return { code, expiresAt: Date.now() + remainingMs };
+}
+
+async function fillPendingTotp(tabId: number, entry: VaultEntry) {
+  const totp = await buildTotpPayload(entry);
+  if (!totp) {
+    return;
+  }
+  const result = (await chrome.tabs.sendMessage(tabId, {
+    type: "vaultlight.fillTotp",
+    payload: totp,
+  })) as { success: boolean } | undefined;
+  if (result?.success) {
+    pendingTotpFills.delete(tabId);
+  }
+}
+
+// Many sites ask for the one-time code on a second page after the password.
+chrome.tabs.onUpdated.addListener(
+  (tabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
+    if (EXTENSION_DISABLED || changeInfo.status !== "complete") return;
+    const pending = pendingTotpFills.get(tabId);
+    if (!pending) return;
+    if (pending.expiresAt < Date.now() || !decryptedVault) {
+      pendingTotpFills.delete(tabId);
+      return;
+    }
+    const entry = decryptedVault.entries.find((item) => item.id === pending.entryId);
+    if (!entry || !ensureHostMatches(entry, getTabHost(tab))) {
+      return;
+    }
+    fillPendingTotp(tabId, entry).catch((error) => {
+      console.error("Vaultlight: one-time code fill failed", error);
+    });
+  },
+);
+
 async function ensureEncryptedVaultLoaded() {
   if (!encryptedVault) {
     await loadFromStorage();
@@ -234,8 +278,13 @@ function getEntryPreviews(): EntryPreview[] {
   if (!decryptedVault) {
     return [];
   }
-  return [...decryptedVault.entries]
-    .sort((a, b) => b.updatedAt - a.updatedAt)
+  // Cards, identities and other templates without a password have nothing to autofill.
+  return decryptedVault.entries
+    .filter((entry) => entry.password)
+    .sort(
+      (a, b) =>
+        Number(Boolean(b.favorite)) - Number(Boolean(a.favorite)) || b.updatedAt - a.updatedAt,
+    )
     .map((entry) => ({
       id: entry.id,
       label: entry.label,
@@ -244,6 +293,8 @@ function getEntryPreviews(): EntryPreview[] {
       exposure: entry.exposure,
       url: entry.url,
       domain: resolveEntryDomain(entry) ?? undefined,
+      tags: entry.tags,
+      favorite: entry.favorite,
     }));
 }
 
@@ -259,10 +310,10 @@ function resolveEntryDomain(entry: VaultEntry): string | null {
 }
 
 async function persistDecryptedVault() {
-  if (!decryptedVault || !masterSecret) {
+  if (!decryptedVault || !keyring) {
     return;
   }
-  const encrypted = await encryptVault(masterSecret, decryptedVault);
+  const encrypted = await sealExtensionVault(keyring, decryptedVault);
   encryptedVault = encrypted;
   const now = Date.now();
   const nextMeta: VaultMeta = {
@@ -315,7 +366,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         };
         encryptedVault = encrypted;
         vaultMeta = meta;
-        masterSecret = null;
+        keyring = null;
         await chrome.storage.local.set({
           [STORAGE_KEY]: encryptedVault,
           [META_KEY]: vaultMeta,
@@ -370,12 +421,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           return;
         }
         try {
-          const payload = await decryptVault(message.masterPassword, encryptedVault);
-          decryptedVault = {
-            ...payload,
-            entries: hydrateExposures(payload.entries),
-          };
-          masterSecret = message.masterPassword;
+          const opened = await openExtensionVault(message.masterPassword, encryptedVault);
+          decryptedVault = opened.payload;
+          keyring = opened.keyring;
           scheduleLock();
           await updateSecurityState(deriveSuccess());
           sendResponse({
@@ -386,7 +434,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         } catch (error) {
           console.error("Vaultlight: unlock failed", error);
           decryptedVault = null;
-          masterSecret = null;
+          keyring = null;
           const updated = deriveFailure(securityState, Date.now());
           await updateSecurityState(updated);
           if (updated.requiresReset) {
@@ -430,6 +478,14 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           sendResponse({ success: false, error: "Entry not found.", security: securityState });
           return;
         }
+        if (!entry.password) {
+          sendResponse({
+            success: false,
+            error: "This entry has no login to fill.",
+            security: securityState,
+          });
+          return;
+        }
         try {
           const targetTab = tabId
             ? await chrome.tabs.get(tabId)
@@ -454,14 +510,21 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
               await persistDecryptedVault();
             }
           }
-          await chrome.tabs.sendMessage(targetTabId, {
+          const result = (await chrome.tabs.sendMessage(targetTabId, {
             type: "vaultlight.autofill",
             payload: {
               username: entry.username,
               password: entry.password,
               label: entry.label,
+              totp: await buildTotpPayload(entry),
             },
-          });
+          })) as { success: boolean; totpFilled?: boolean } | undefined;
+          if (entry.totp && result?.success && !result.totpFilled) {
+            pendingTotpFills.set(targetTabId, {
+              entryId: entry.id,
+              expiresAt: Date.now() + PENDING_TOTP_MS,
+            });
+          }
           scheduleLock();
           sendResponse({ success: true, security: securityState });
         } catch (error) {
@@ -477,7 +540,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     }
     case "vaultlight.generateRegistration": {
       (async () => {
-        if (!decryptedVault || !masterSecret) {
+        if (!decryptedVault || !keyring) {
           sendResponse({ success: false, error: "Unlock the vault before generating credentials." });
           return;
         }
@@ -1,3 +1,4 @@
+import { buildSearchIndex, type SearchIndex } from "../../src/core/entries/entrySearch";
 import type { EntryPreview, VaultMeta } from "./shared/types";
 import type { SecurityState } from "./shared/security";
 
@@ -52,12 +53,17 @@ const unlockForm = document.getElementById("unlock-form") as HTMLFormElement;
 const unlockPassword = document.getElementById("unlock-password") as HTMLInputElement;
 const entriesSection = document.getElementById("entries-section") as HTMLDivElement;
 const entriesContainer = document.getElementById("entries") as HTMLDivElement;
+const tagFilter = document.getElementById("tag-filter") as HTMLSelectElement;
+const entrySearch = document.getElementById("entry-search") as HTMLInputElement;
 const lockButton = document.getElementById("lock-button") as HTMLButtonElement;
 const registrationButton = document.getElementById("registration-button") as HTMLButtonElement | null;
 const messageBox = document.getElementById("message") as HTMLParagraphElement;
 const securityHint = document.getElementById("security-state") as HTMLParagraphElement | null;
 
 let unlockedEntries: EntryPreview[] = [];
+let searchIndex: SearchIndex<EntryPreview> = buildSearchIndex([]);
+let shownEntries: EntryPreview[] = [];
+let activeIndex = 0;
 
 function setMessage(text: string, kind: "info" | "success" | "error" = "info") {
   messageBox.textContent = text;
@@ -133,27 +139,74 @@ function exposureLabel(status?: string): string {
   }
 }
 
+// Same matching as the vault's tag sidebar: case-insensitive, first spelling shown.
+function updateTagFilter(entries: EntryPreview[]) {
+  const selected = tagFilter.value;
+  const tags: string[] = [];
+  entries.forEach((entry) => {
+    (entry.tags ?? []).forEach((tag) => {
+      if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+        tags.push(tag);
+      }
+    });
+  });
+  tags.sort((a, b) => a.localeCompare(b));
+
+  tagFilter.innerHTML = "";
+  const all = document.createElement("option");
+  all.value = "";
+  all.textContent = "All tags";
+  tagFilter.appendChild(all);
+  tags.forEach((tag) => {
+    const option = document.createElement("option");
+    option.value = tag;
+    option.textContent = `#${tag}`;
+    tagFilter.appendChild(option);
+  });
+  tagFilter.value = tags.includes(selected) ? selected : "";
+  showSection(tagFilter, tags.length > 0);
+}
+
 function renderEntries(entries: EntryPreview[]) {
   unlockedEntries = entries;
+  searchIndex = buildSearchIndex(entries);
+  updateTagFilter(entries);
+  renderEntryList();
+}
+
+// Same index as the vault's search box, narrowed by the tag filter.
+function renderEntryList() {
+  const tag = tagFilter.value.toLowerCase();
+  const query = entrySearch.value;
+  const entries = searchIndex
+    .search(query)
+    .filter(
+      (entry) => !tag || (entry.tags ?? []).some((existing) => existing.toLowerCase() === tag),
+    );
+  shownEntries = entries;
+  activeIndex = 0;
   entriesContainer.innerHTML = "";
   if (entries.length === 0) {
     const empty = document.createElement("p");
     empty.className = "hint";
-    empty.textContent = "No entries found. Sync again or add new entries in the vault.";
+    empty.textContent =
+      query.trim() || tag
+        ? "No matching entries."
+        : "No entries found. Sync again or add new entries in the vault.";
     entriesContainer.appendChild(empty);
     return;
   }
 
-  entries.forEach((entry) => {
+  entries.forEach((entry, index) => {
     const card = document.createElement("div");
-    card.className = "entry";
+    card.className = index === activeIndex && query.trim() ? "entry active" : "entry";
 
     const header = document.createElement("div");
     header.className = "entry-header";
 
     const label = document.createElement("div");
     label.className = "entry-label";
-    label.textContent = entry.label;
+    label.textContent = entry.favorite ? `★ ${entry.label}` : entry.label;
 
     const badge = document.createElement("span");
     badge.className = exposureClass(entry.exposure?.status);
@@ -264,6 +317,7 @@ async function refreshStatus() {
 
   if (response.unlocked) {
     await loadEntries();
+    entrySearch.focus();
   }
 }
 
@@ -390,6 +444,7 @@ async function handleFill(entryId: string) {
 async function handleLock() {
   await chrome.runtime.sendMessage({ type: "vaultlight.lock" });
   unlockedEntries = [];
+  entrySearch.value = "";
   renderEntries([]);
   setMessage("Vault locked.");
   await refreshStatus();
@@ -399,6 +454,38 @@ syncButton.addEventListener("click", () => void handleSync());
 unlockForm.addEventListener("submit", (event) => void handleUnlock(event));
 registrationButton?.addEventListener("click", () => void handleGenerateRegistration());
 lockButton.addEventListener("click", () => void handleLock());
+tagFilter.addEventListener("change", () => renderEntryList());
+entrySearch.addEventListener("input", () => renderEntryList());
+entrySearch.addEventListener("keydown", (event) => {
+  if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+    event.preventDefault();
+    if (shownEntries.length === 0) return;
+    const step = event.key === "ArrowDown" ? 1 : -1;
+    activeIndex = Math.min(Math.max(activeIndex + step, 0), shownEntries.length - 1);
+    Array.from(entriesContainer.querySelectorAll(".entry")).forEach((card, index) => {
+      card.classList.toggle("active", index === activeIndex);
+      if (index === activeIndex) {
+        card.scrollIntoView({ block: "nearest" });
+      }
+    });
+    return;
+  }
+  if (event.key === "Enter") {
+    event.preventDefault();
+    const entry = shownEntries[activeIndex];
+    if (entry) {
+      void handleFill(entry.id);
+    }
+  }
+});
+document.addEventListener("keydown", (event) => {
+  const target = event.target as HTMLElement | null;
+  const entriesVisible = !entriesSection.classList.contains("hidden");
+  if (event.key === "/" && target?.tagName !== "INPUT" && entriesVisible) {
+    event.preventDefault();
+    entrySearch.focus();
+  }
+});
 
 chrome.runtime.onMessage.addListener((message) => {
   if (message?.type === "vaultlight.lock-notice") {
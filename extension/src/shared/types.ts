@@ -1,50 +1,14 @@
-export type ExposureSeverity = "low" | "medium" | "high";
-export type ExposureStatus = "pending" | "safe" | "warning" | "breached";
+import type { PasswordExposure } from "../../../src/core/crypto/cryptoClient";
 
-export interface ExposureSource {
-  provider: string;
-  description: string;
-  matches: number;
-  severity: ExposureSeverity;
-}
-
-export interface PasswordExposure {
-  status: ExposureStatus;
-  sources: ExposureSource[];
-  lastChecked: number;
-  errors?: string[];
-}
-
-export interface VaultEntry {
-  id: string;
-  label: string;
-  username: string;
-  password: string;
-  createdAt: number;
-  updatedAt: number;
-  notes?: string;
-  exposure?: PasswordExposure;
-  url?: string;
-  domain?: string;
-}
-
-export interface VaultPayload {
-  version: number;
-  entries: VaultEntry[];
-}
-
-export interface EncryptedVault {
-  version: number;
-  cipherText: string;
-  iv: string;
-  salt: string;
-}
-
-export interface VaultMeta {
-  createdAt: number;
-  updatedAt: number;
-  lastUnlockedAt?: number;
-}
+// Vault shapes come from the web app's crypto core so both sides stay on the same envelope format.
+export type {
+  EncryptedVault,
+  ExposureSource,
+  PasswordExposure,
+  VaultEntry,
+  VaultPayload,
+} from "../../../src/core/crypto/cryptoClient";
+export type { VaultMeta } from "../../../src/core/storage/vaultStorage";
 
 export interface EntryPreview {
   id: string;
@@ -54,4 +18,6 @@ export interface EntryPreview {
   exposure?: PasswordExposure;
   url?: string;
   domain?: string;
+  tags?: string[];
+  favorite?: boolean;
 }
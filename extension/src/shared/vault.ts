@@ -0,0 +1,38 @@
+import {
+  encryptPayload,
+  hydrateExposures,
+  openVault,
+  type EncryptedVault,
+  type VaultKeyring,
+  type VaultPayload,
+} from "../../../src/core/crypto/cryptoClient";
+import { migrateVaultPayload } from "../../../src/core/crypto/vaultMigrations";
+
+export interface OpenedExtensionVault {
+  payload: VaultPayload;
+  keyring: VaultKeyring;
+}
+
+/** Unlocks any envelope version the web app writes and migrates it to the current schema. */
+export async function openExtensionVault(
+  masterPassword: string,
+  encrypted: EncryptedVault,
+): Promise<OpenedExtensionVault> {
+  const opened = await openVault(masterPassword, encrypted);
+  const { payload } = migrateVaultPayload(opened.payload);
+  return {
+    payload: {
+      ...payload,
+      entries: hydrateExposures(payload.entries),
+    },
+    keyring: opened.keyring,
+  };
+}
+
+/** Encrypts the payload in the envelope format the web app writes. */
+export function sealExtensionVault(
+  keyring: VaultKeyring,
+  payload: VaultPayload,
+): Promise<EncryptedVault> {
+  return encryptPayload(keyring, payload);
+}
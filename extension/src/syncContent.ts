@@ -1,21 +1,20 @@
-const VAULT_STORAGE_KEY = "vaultlight.encrypted-vault";
-const META_STORAGE_KEY = "vaultlight.meta";
+import { loadEncryptedVault, loadVaultMeta } from "../../src/core/storage/vaultStorage";
 
 interface SyncResponse {
   encrypted: unknown;
   meta: unknown;
 }
 
-function readVaultFromLocalStorage(): SyncResponse | null {
+// Content scripts share the page origin's IndexedDB, so the web app's storage adapter works here too.
+async function readStoredVault(): Promise<SyncResponse | null> {
   try {
-    const encryptedRaw = window.localStorage.getItem(VAULT_STORAGE_KEY);
-    if (!encryptedRaw) {
+    const encrypted = await loadEncryptedVault();
+    if (!encrypted) {
       return null;
     }
-    const metaRaw = window.localStorage.getItem(META_STORAGE_KEY);
     return {
-      encrypted: JSON.parse(encryptedRaw),
-      meta: metaRaw ? JSON.parse(metaRaw) : null,
+      encrypted,
+      meta: await loadVaultMeta(),
     };
   } catch (error) {
     console.error("Vaultlight extension: unable to read vault", error);
@@ -23,8 +22,8 @@ function readVaultFromLocalStorage(): SyncResponse | null {
   }
 }
 
-function pushVaultToBackground() {
-  const payload = readVaultFromLocalStorage();
+async function pushVaultToBackground() {
+  const payload = await readStoredVault();
   if (!payload) {
     return;
   }
@@ -39,16 +38,17 @@ function pushVaultToBackground() {
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message?.type === "vaultlight.dumpVault") {
-    const payload = readVaultFromLocalStorage();
-    if (!payload) {
-      sendResponse({ success: false, error: "No vault found." });
-      return false;
-    }
-    sendResponse({ success: true, encrypted: payload.encrypted, meta: payload.meta });
-    return false;
+    readStoredVault().then((payload) => {
+      if (!payload) {
+        sendResponse({ success: false, error: "No vault found." });
+        return;
+      }
+      sendResponse({ success: true, encrypted: payload.encrypted, meta: payload.meta });
+    });
+    return true;
   }
   return undefined;
 });
 
 // Auto-sync on load when the vault is open in this tab.
-pushVaultToBackground();
+void pushVaultToBackground();
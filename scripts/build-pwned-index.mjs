@@ -0,0 +1,109 @@
+// Builds the index read by src/server/leaks/providers/offlinePwnedPasswords.ts
+// from the Pwned Passwords SHA-1 file ordered by hash (`HASH:COUNT` per line).
+//
+//   npm run build:pwned-index -- pwned-passwords-sha1-ordered-by-hash.txt [output.idx]
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import readline from "readline";
+
+const MAGIC = "VLPWND01";
+const HEADER_BYTES = 16;
+const PREFIX_COUNT = 1 << 20;
+const TABLE_BYTES = (PREFIX_COUNT + 1) * 4;
+const RECORD_BYTES = 24;
+const RECORDS_PER_WRITE = 65_536;
+const LINE_PATTERN = /^([0-9A-F]{40}):(\d+)$/i;
+
+async function buildIndex(inputPath, outputPath) {
+  const tempPath = `${outputPath}.tmp`;
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  const output = await fs.open(tempPath, "w");
+  const counts = new Uint32Array(PREFIX_COUNT);
+  const chunk = Buffer.alloc(RECORDS_PER_WRITE * RECORD_BYTES);
+  let chunkRecords = 0;
+  let records = 0;
+  let position = HEADER_BYTES + TABLE_BYTES;
+  let previousHash = "";
+  let lineNumber = 0;
+
+  const flush = async () => {
+    if (chunkRecords === 0) return;
+    const length = chunkRecords * RECORD_BYTES;
+    await output.write(chunk, 0, length, position);
+    position += length;
+    chunkRecords = 0;
+  };
+
+  try {
+    const lines = readline.createInterface({
+      input: createReadStream(inputPath),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      lineNumber += 1;
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      const match = LINE_PATTERN.exec(trimmed);
+      if (!match) {
+        throw new Error(`Line ${lineNumber} is not "SHA1:COUNT".`);
+      }
+      const hash = match[1].toUpperCase();
+      if (hash <= previousHash) {
+        throw new Error(
+          `Line ${lineNumber} is out of order; use the file ordered by hash, not by prevalence.`,
+        );
+      }
+      previousHash = hash;
+      const offset = chunkRecords * RECORD_BYTES;
+      chunk.write(hash, offset, 20, "hex");
+      chunk.writeUInt32BE(Math.min(Number(match[2]), 0xffffffff), offset + 20);
+      counts[parseInt(hash.slice(0, 5), 16)] += 1;
+      chunkRecords += 1;
+      records += 1;
+      if (chunkRecords === RECORDS_PER_WRITE) {
+        await flush();
+      }
+      if (records % 10_000_000 === 0) {
+        console.log(`… ${records.toLocaleString("en")} hashes`);
+      }
+    }
+    await flush();
+
+    const header = Buffer.alloc(HEADER_BYTES);
+    header.write(MAGIC, 0, "latin1");
+    header.writeUInt32BE(records, 8);
+    const table = Buffer.alloc(TABLE_BYTES);
+    let start = 0;
+    for (let slot = 0; slot < PREFIX_COUNT; slot += 1) {
+      table.writeUInt32BE(start, slot * 4);
+      start += counts[slot];
+    }
+    table.writeUInt32BE(start, PREFIX_COUNT * 4);
+    await output.write(header, 0, HEADER_BYTES, 0);
+    await output.write(table, 0, TABLE_BYTES, HEADER_BYTES);
+  } catch (error) {
+    await output.close();
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+  await output.close();
+  await fs.rename(tempPath, outputPath);
+  return records;
+}
+
+const [inputPath, outputPath = path.join("storage-cache", "pwned-passwords.idx")] =
+  process.argv.slice(2);
+
+if (!inputPath) {
+  console.error("Usage: npm run build:pwned-index -- <pwned-passwords-sha1.txt> [output.idx]");
+  process.exit(1);
+}
+
+buildIndex(path.resolve(inputPath), path.resolve(outputPath))
+  .then((records) => {
+    console.log(`✔ ${records.toLocaleString("en")} hashes indexed in ${outputPath}`);
+  })
+  .catch((error) => {
+    console.error("✖ Could not build the Pwned Passwords index", error);
+    process.exit(1);
+  });
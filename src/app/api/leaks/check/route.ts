@@ -1,10 +1,7 @@
 import { NextResponse } from "next/server";
-import { DARK_WEB_SAMPLE } from "../../../../core/leaks/darkWebSample";
-import { VAULT_INTEL_SAMPLE } from "../../../../server/leaks/providers/vaultIntel";
-import type {
-  ExposureSource,
-  PasswordExposure,
-} from "../../../../core/crypto/cryptoClient";
+import type { PasswordExposure } from "../../../../core/crypto/cryptoClient";
+import { getLeakProviders } from "../../../../server/leaks/leakConfig";
+import { checkLeakProviders, type LeakProvider } from "../../../../server/leaks/leakProvider";
 
 interface LeakCheckRequest {
   sha1Prefix: string;
@@ -19,92 +16,11 @@ interface LeakCheckResponse {
   error?: string;
 }
 
-const HIBP_ENDPOINT = "https://api.pwnedpasswords.com/range/";
 const HEX_REGEX = /^[a-f0-9]+$/i;
 const SHA1_PREFIX_LENGTH = 5;
 const SHA1_SUFFIX_LENGTH = 35;
 const SHA256_LENGTH = 64;
 
-async function queryHaveIBeenPwned(prefix: string, suffix: string): Promise<ExposureSource | null> {
-  const response = await fetch(`${HIBP_ENDPOINT}${prefix}`, {
-    method: "GET",
-    headers: {
-      "Add-Padding": "true",
-      "User-Agent": "Vaultlight Password Manager",
-    },
-    cache: "no-store",
-  });
-
-  if (!response.ok) {
-    throw new Error(`HIBP HTTP ${response.status}`);
-  }
-
-  const text = await response.text();
-  const matchLine = text
-    .split("\n")
-    .map((line) => line.trim())
-    .find((line) => line.startsWith(suffix.toUpperCase()));
-
-  if (!matchLine) {
-    return null;
-  }
-
-  const count = parseInt(matchLine.split(":")[1] ?? "0", 10);
-
-  return {
-    provider: "HaveIBeenPwned",
-    description: "Detected in the Pwned Passwords dataset",
-    matches: Number.isNaN(count) ? 0 : count,
-    severity: count > 1000 ? "high" : "medium",
-  };
-}
-
-function lookupLocalDatasets(hash: string): ExposureSource[] {
-  const normalized = hash.toLowerCase();
-  const hits: ExposureSource[] = [];
-
-  const darkMatch = DARK_WEB_SAMPLE.find((record) => record.hash === normalized);
-  if (darkMatch) {
-    hits.push({
-      provider: darkMatch.source,
-      description: darkMatch.description,
-      matches: darkMatch.matches ?? 1,
-      severity: darkMatch.severity,
-    });
-  }
-
-  const vaultMatch = VAULT_INTEL_SAMPLE.find((record) => record.hash === normalized);
-  if (vaultMatch) {
-    hits.push({
-      provider: vaultMatch.source,
-      description: vaultMatch.description,
-      matches: vaultMatch.matches,
-      severity: vaultMatch.severity,
-    });
-  }
-
-  return hits;
-}
-
-function buildExposure(sources: ExposureSource[], errors: string[]): PasswordExposure {
-  let status: PasswordExposure["status"] = "safe";
-
-  if (sources.some((source) => source.severity === "high")) {
-    status = "breached";
-  } else if (sources.length > 0) {
-    status = "warning";
-  } else if (errors.length > 0) {
-    status = "warning";
-  }
-
-  return {
-    status,
-    sources,
-    errors,
-    lastChecked: Date.now(),
-  };
-}
-
 export async function POST(request: Request) {
   let body: LeakCheckRequest;
   try {
@@ -149,30 +65,26 @@ export async function POST(request: Request) {
     );
   }
 
-  const sources: ExposureSource[] = [];
-  const errors: string[] = [];
-
-  try {
-    const hibpExposure = await queryHaveIBeenPwned(
-      normalizedPrefix.toUpperCase(),
-      normalizedSuffix.toUpperCase(),
-    );
-    if (hibpExposure) {
-      sources.push(hibpExposure);
-    }
-  } catch (error) {
-    errors.push(error instanceof Error ? error.message : String(error));
-  }
-
+  let providers: LeakProvider[];
   try {
-    const localSources = lookupLocalDatasets(normalizedSha256.toLowerCase());
-    sources.push(...localSources);
+    providers = getLeakProviders();
   } catch (error) {
-    errors.push(error instanceof Error ? error.message : String(error));
+    console.error("Vaultlight leak providers are misconfigured.", error);
+    return NextResponse.json<LeakCheckResponse>(
+      {
+        success: false,
+        error: "Leak providers are misconfigured.",
+      },
+      { status: 500 },
+    );
   }
 
   return NextResponse.json<LeakCheckResponse>({
     success: true,
-    exposure: buildExposure(sources, errors),
+    exposure: await checkLeakProviders(providers, {
+      sha1Prefix: normalizedPrefix.toUpperCase(),
+      sha1Suffix: normalizedSuffix.toUpperCase(),
+      sha256Hash: normalizedSha256.toLowerCase(),
+    }),
   });
 }
@@ -0,0 +1,150 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { parseEncryptedVault, type EncryptedVault } from "../../../../core/crypto/cryptoClient";
+import { VAULT_ID_PATTERN, getSyncServerConfig, type SyncServerConfig } from "../../../../server/sync/syncConfig";
+import type { SyncRecord } from "../../../../server/sync/syncStore";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+interface SyncPushRequest {
+  baseRevision: number;
+  vault: unknown;
+}
+
+interface SyncResponse {
+  success: boolean;
+  record?: SyncRecord | null;
+  error?: string;
+}
+
+interface RouteContext {
+  params: { vaultId: string };
+}
+
+function failure(error: string, status: number, record?: SyncRecord | null) {
+  return NextResponse.json<SyncResponse>({ success: false, error, record }, { status });
+}
+
+// Cross-origin clients are only answered when their origin is allowlisted.
+function allowedOrigin(request: Request): string | null {
+  const origin = request.headers.get("origin");
+  if (!origin) {
+    return null;
+  }
+  try {
+    return getSyncServerConfig()?.allowedOrigins.includes(origin) ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+function withCors(request: Request, response: NextResponse): NextResponse {
+  const origin = allowedOrigin(request);
+  if (origin) {
+    response.headers.set("Access-Control-Allow-Origin", origin);
+    response.headers.set("Vary", "Origin");
+  }
+  return response;
+}
+
+function isAuthorized(request: Request, config: SyncServerConfig): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const supplied = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(config.token);
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+}
+
+// Shared checks for every method; returns an error response or the resolved config.
+function authorize(request: Request, vaultId: string): SyncServerConfig | NextResponse {
+  let config: SyncServerConfig | null;
+  try {
+    config = getSyncServerConfig();
+  } catch (error) {
+    console.error("Vaultlight sync server is misconfigured.", error);
+    return failure("Sync server is misconfigured.", 500);
+  }
+  if (!config) {
+    return failure("Sync is not enabled on this server.", 404);
+  }
+  if (!isAuthorized(request, config)) {
+    return failure("Invalid sync token.", 401);
+  }
+  if (!VAULT_ID_PATTERN.test(vaultId)) {
+    return failure("Invalid vault id.", 400);
+  }
+  return config;
+}
+
+export function OPTIONS(request: Request) {
+  const origin = allowedOrigin(request);
+  if (!origin) {
+    return new NextResponse(null, { status: 204 });
+  }
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": origin,
+      "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+      "Access-Control-Allow-Headers": "Authorization, Content-Type",
+      "Access-Control-Max-Age": "600",
+      Vary: "Origin",
+    },
+  });
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  return withCors(request, await readVault(request, context));
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  return withCors(request, await writeVault(request, context));
+}
+
+async function readVault(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const config = authorize(request, params.vaultId);
+  if (config instanceof NextResponse) {
+    return config;
+  }
+  try {
+    const record = await config.store.read(params.vaultId);
+    return NextResponse.json<SyncResponse>({ success: true, record });
+  } catch (error) {
+    console.error(error);
+    return failure("Sync store unavailable.", 500);
+  }
+}
+
+async function writeVault(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const config = authorize(request, params.vaultId);
+  if (config instanceof NextResponse) {
+    return config;
+  }
+
+  let body: SyncPushRequest;
+  try {
+    body = (await request.json()) as SyncPushRequest;
+  } catch {
+    return failure("Invalid request body.", 400);
+  }
+  if (!Number.isInteger(body.baseRevision) || body.baseRevision < 0) {
+    return failure("Missing base revision.", 400);
+  }
+  let vault: EncryptedVault;
+  try {
+    vault = parseEncryptedVault(body.vault);
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : "Invalid vault.", 400);
+  }
+
+  try {
+    const result = await config.store.write(params.vaultId, vault, body.baseRevision);
+    if (result.status === "conflict") {
+      return failure("Vault changed on the server.", 409, result.current);
+    }
+    return NextResponse.json<SyncResponse>({ success: true, record: result.record });
+  } catch (error) {
+    console.error(error);
+    return failure("Sync store unavailable.", 500);
+  }
+}
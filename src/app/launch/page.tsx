@@ -47,7 +47,7 @@ export default function LaunchPage() {
           <article>
             <h3>Client-only encryption</h3>
             <p>
-              Derive keys with PBKDF2, encrypt with AES-GCM, and keep the vault entirely in
+              Derive keys with memory-hard Argon2id, encrypt with AES-GCM, and keep the vault entirely in
               `localStorage`. Nothing leaves the browser except anonymized breach lookups.
             </p>
           </article>
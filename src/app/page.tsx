@@ -1,26 +1,88 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
 import type {
+  CustomField,
+  EntryTemplateId,
+  ExposureProviderResult,
   VaultEntry,
+  VaultKeyring,
   VaultPayload,
   PasswordExposure,
 } from "../core/crypto/cryptoClient";
 import {
+  enrollRecoveryKey,
+  hasRecoveryKey,
   initializeVaultEntry,
   persistVault,
   resetVault,
+  restoreVaultSnapshot,
+  rotateMasterPassword,
   unlockVault,
   vaultExists,
+  verifyMasterPassword,
 } from "../core/storage/vaultManager";
-import { loadVaultMeta, type VaultMeta } from "../core/storage/vaultStorage";
+import {
+  SNAPSHOT_LIMIT,
+  loadVaultMeta,
+  loadVaultSnapshots,
+  type VaultMeta,
+  type VaultSnapshot,
+} from "../core/storage/vaultStorage";
 import {
   assessStrength,
   generatePassword,
   type PasswordOptions,
   type StrengthAssessment,
 } from "../core/password/generator";
+import {
+  findPasswordReuse,
+  recordPasswordChange,
+  restorePassword,
+} from "../core/password/passwordHistory";
 import { checkPasswordAgainstLeaks } from "../core/leaks/leakChecker";
+import { closeLeakCache, openLeakCache } from "../core/leaks/leakCache";
+import {
+  CUSTOM_FIELD_TYPES,
+  ENTRY_TEMPLATES,
+  applyTemplateFields,
+  createCustomField,
+  customFieldHref,
+  getEntryTemplate,
+  normalizeCustomFields,
+  validateCustomField,
+} from "../core/entries/entryTemplates";
+import { buildSearchIndex } from "../core/entries/entrySearch";
+import {
+  buildFolderTree,
+  collectTags,
+  listFolderPaths,
+  matchesEntryFilter,
+  moveEntries,
+  normalizeFolderPath,
+  parseTags,
+  setFavorite,
+  tagEntries,
+  untagEntries,
+  isSameEntryFilter,
+  type EntryFilter,
+  type FolderNode,
+} from "../core/entries/entryOrganization";
+import { pruneAttachments } from "../core/attachments/attachments";
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "../core/notes/markdown";
 import { normalizeHost, extractDisplayUrl } from "../core/utils/url";
 import {
   getSecurityState,
@@ -35,6 +97,48 @@ import {
   loadSettings,
   type UserSettings,
 } from "../core/settings/userSettings";
+import { buildEmergencyKitHtml } from "../core/recovery/emergencyKit";
+import {
+  VAULT_EXPORT_EXTENSION,
+  createVaultExport,
+  mergeVaultPayloads,
+  parseVaultExport,
+  restoreExportAttachments,
+  serializeVaultExport,
+  vaultExportFilename,
+  verifyVaultExport,
+  type VaultExportFile,
+  type VerifiedImport,
+} from "../core/storage/vaultTransfer";
+import { deleteVaultEntry, resolveEntryConflict } from "../core/sync/vaultMerge";
+import {
+  IMPORT_SOURCE_LABELS,
+  buildImportPreview,
+  parseCredentialExport,
+  type ImportPreviewItem,
+  type ImportSource,
+} from "../core/import/credentialImport";
+import {
+  buildBitwardenCsv,
+  buildBitwardenJson,
+  plaintextExportFilename,
+  type PlaintextExportFormat,
+} from "../core/import/plaintextExport";
+import { buildOtpauthUri, parseTotpInput } from "../core/otp/totp";
+import { AttachmentList } from "../ui/attachments/attachmentList";
+import { AttachmentPreviewPanel } from "../ui/attachments/attachmentPreviewPanel";
+import { useAttachments } from "../ui/attachments/useAttachments";
+import { useLeakRescan } from "../ui/leaks/useLeakRescan";
+import { TotpCodeRow } from "../ui/otp/totpCodeRow";
+import { PasskeyCard } from "../ui/passkey/passkeyCard";
+import { usePasskeys } from "../ui/passkey/usePasskeys";
+import { SecurityReport } from "../ui/security/securityReport";
+import { classNames } from "../ui/shared/classNames";
+import { downloadFile } from "../ui/shared/download";
+import { formatTimestamp } from "../ui/shared/format";
+import type { ToastKind } from "../ui/shared/types";
+import { SyncConflicts } from "../ui/sync/syncConflicts";
+import { useVaultSync } from "../ui/sync/useVaultSync";
 
 const defaultPasswordOptions: PasswordOptions = {
   length: DEFAULT_SETTINGS.generatorLength,
@@ -46,16 +150,48 @@ const defaultPasswordOptions: PasswordOptions = {
 };
 
 const initialDraft = {
+  template: "login" as EntryTemplateId,
   label: "",
   username: "",
   password: "",
   notes: "",
   url: "",
+  folder: "",
+  tags: "",
+  totp: "",
+  fields: [] as CustomField[],
 };
 
-type Stage = "checking" | "creating" | "locked" | "unlocking" | "unlocked";
+type DraftTextField = Exclude<keyof typeof initialDraft, "template" | "fields">;
+
+const initialPlaintextExport = {
+  format: "csv" as PlaintextExportFormat,
+  password: "",
+  override: false,
+};
+
+const initialRecoveryInput = {
+  key: "",
+  next: "",
+  confirm: "",
+};
+
+type UnlockMode = "master" | "recovery";
 
-type ToastKind = "info" | "success" | "error";
+const providerStatusLabels: Record<ExposureProviderResult["status"], string> = {
+  match: "match",
+  clean: "no match",
+  error: "failed",
+  timeout: "timed out",
+};
+
+interface CredentialImportPreview {
+  source: ImportSource;
+  skipped: number;
+  items: ImportPreviewItem[];
+}
+
+type Stage = "checking" | "creating" | "locked" | "unlocking" | "unlocked";
 
 interface ToastMessage {
   id: number;
@@ -63,24 +199,6 @@ interface ToastMessage {
   kind: ToastKind;
 }
 
-function classNames(
-  ...classes: Array<string | false | undefined | null>
-): string {
-  return classes.filter(Boolean).join(" ");
-}
-
-function formatTimestamp(timestamp?: number): string {
-  if (!timestamp) return "—";
-  const locale =
-    typeof navigator !== "undefined" && navigator.language
-      ? navigator.language
-      : "en-US";
-  return new Date(timestamp).toLocaleString(locale, {
-    dateStyle: "short",
-    timeStyle: "short",
-  });
-}
-
 function formatCountdown(ms: number): string {
   const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
   if (totalSeconds < 60) {
@@ -96,6 +214,28 @@ function formatCountdown(ms: number): string {
   return `${hours}h ${remMinutes}m`;
 }
 
+function shieldBlockMessage(state: SecurityState, now: number): string | null {
+  if (state.requiresReset) {
+    return "Security shield active. Reset the vault before trying again.";
+  }
+  if (state.lockUntil > now) {
+    return `Too many failed attempts. Try again in ${formatCountdown(state.lockUntil - now)}.`;
+  }
+  return null;
+}
+
+function unlockFailureMessage(state: SecurityState, credentialLabel: string): string {
+  if (state.requiresReset) {
+    return "Security shield active—the vault is locked. Reset the vault to continue.";
+  }
+  if (state.lockUntil > Date.now()) {
+    return `${credentialLabel} invalid. Vault temporarily locked (${formatCountdown(
+      state.lockUntil - Date.now(),
+    )}).`;
+  }
+  return `${credentialLabel} incorrect or vault corrupted.`;
+}
+
 function exposureStatusLabel(status: PasswordExposure["status"]): string {
   switch (status) {
     case "safe":
@@ -109,6 +249,69 @@ function exposureStatusLabel(status: PasswordExposure["status"]): string {
   }
 }
 
+function renderMarkdownInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "strong":
+        return <strong key={index}>{renderMarkdownInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderMarkdownInline(node.children)}</em>;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderMarkdownInline(node.children)}
+          </a>
+        );
+      default:
+        return node.text;
+    }
+  });
+}
+
+function renderMarkdownBlocks(blocks: MarkdownBlock[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case "heading": {
+        const Heading = `h${Math.min(block.level + 3, 6)}` as "h4" | "h5" | "h6";
+        return <Heading key={index}>{renderMarkdownInline(block.children)}</Heading>;
+      }
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List key={index}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderMarkdownInline(item)}</li>
+            ))}
+          </List>
+        );
+      }
+      case "code":
+        return (
+          <pre key={index}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "quote":
+        return <blockquote key={index}>{renderMarkdownBlocks(block.blocks)}</blockquote>;
+      case "rule":
+        return <hr key={index} />;
+      default:
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <span key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderMarkdownInline(line)}
+              </span>
+            ))}
+          </p>
+        );
+    }
+  });
+}
+
 function strengthLabel(assessment: StrengthAssessment | null): string {
   if (!assessment) return "—";
   switch (assessment.level) {
@@ -137,6 +340,13 @@ export default function HomePage() {
   const [draft, setDraft] = useState(initialDraft);
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
   const [draftError, setDraftError] = useState<string | null>(null);
+  const [entryQuery, setEntryQuery] = useState("");
+  const [entryFilter, setEntryFilter] = useState<EntryFilter>({ kind: "all" });
+  const [activeResultIndex, setActiveResultIndex] = useState(0);
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState({ folder: "", tag: "" });
   const [masterChange, setMasterChange] = useState({ next: "", confirm: "" });
   const [masterChangeError, setMasterChangeError] = useState<string | null>(null);
   const [securityState, setSecurityState] = useState<SecurityState>(() => getSecurityState());
@@ -146,14 +356,36 @@ export default function HomePage() {
   const [checkingEntries, setCheckingEntries] = useState<string[]>([]);
   const [revealedEntries, setRevealedEntries] = useState<string[]>([]);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
-
-  const masterSecretRef = useRef<string>("");
+  const [unlockMode, setUnlockMode] = useState<UnlockMode>("master");
+  const [recoveryInput, setRecoveryInput] = useState(initialRecoveryInput);
+  const [hasRecoverySlot, setHasRecoverySlot] = useState(false);
+  const [pendingRecoveryKey, setPendingRecoveryKey] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<VaultExportFile | null>(null);
+  const [importPassword, setImportPassword] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [credentialImport, setCredentialImport] = useState<CredentialImportPreview | null>(null);
+  const [selectedImportKeys, setSelectedImportKeys] = useState<string[]>([]);
+  const [credentialImportError, setCredentialImportError] = useState<string | null>(null);
+  const [plaintextExport, setPlaintextExport] = useState(initialPlaintextExport);
+  const [plaintextExportError, setPlaintextExportError] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<VaultSnapshot[]>([]);
+  const [snapshotPassword, setSnapshotPassword] = useState("");
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [restoringSnapshotId, setRestoringSnapshotId] = useState<string | null>(null);
+
+  const keyringRef = useRef<VaultKeyring | null>(null);
   const vaultRef = useRef<VaultPayload | null>(null);
   const toastId = useRef(0);
   const lastInteractionRef = useRef(Date.now());
   const generatorCustomizedRef = useRef(false);
   const clipboardClearTimeout = useRef<number | null>(null);
   const revealTimeoutsRef = useRef<Map<string, number>>(new Map());
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const credentialImportInputRef = useRef<HTMLInputElement | null>(null);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const entryFormRef = useRef<HTMLDivElement | null>(null);
+  const entryCardRefs = useRef<Map<string, HTMLElement>>(new Map());
 
   const autoLockMinutes = userSettings.autoLockMinutes;
   const autoLockMs = autoLockMinutes * 60 * 1000;
@@ -161,7 +393,7 @@ export default function HomePage() {
 
   useEffect(() => {
     return () => {
-      masterSecretRef.current = "";
+      keyringRef.current = null;
       vaultRef.current = null;
       if (clipboardClearTimeout.current) {
         window.clearTimeout(clipboardClearTimeout.current);
@@ -210,15 +442,52 @@ export default function HomePage() {
     });
   }, [settingsLoaded, userSettings]);
 
+  const addToast = useCallback((text: string, kind: ToastKind) => {
+    toastId.current += 1;
+    const id = toastId.current;
+    setToasts((prev) => [...prev, { id, text, kind }]);
+    setTimeout(() => {
+      setToasts((prev) => prev.filter((toast) => toast.id !== id));
+    }, 3600);
+  }, []);
+
+  const registerInteraction = useCallback(() => {
+    lastInteractionRef.current = Date.now();
+  }, []);
+
+  const refreshMeta = useCallback(async () => {
+    setMeta(await loadVaultMeta());
+  }, []);
+
+  const {
+    passkeys,
+    supported: passkeySupported,
+    isEnrolling: isEnrollingPasskey,
+    reloadPasskeys,
+    enroll: handleEnrollPasskey,
+    remove: handleRemovePasskey,
+  } = usePasskeys({ keyringRef, onSaved: refreshMeta, addToast, registerInteraction });
+
+  const refreshVaultStatus = useCallback(async () => {
+    const exists = await vaultExists();
+    setHasExistingVault(exists);
+    setHasRecoverySlot(exists && (await hasRecoveryKey()));
+    await reloadPasskeys();
+    await refreshMeta();
+    return exists;
+  }, [refreshMeta, reloadPasskeys]);
+
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
     }
-    const exists = vaultExists();
-    setHasExistingVault(exists);
-    setMeta(loadVaultMeta());
-    setStage(exists ? "locked" : "creating");
-  }, []);
+    refreshVaultStatus()
+      .then((exists) => setStage(exists ? "locked" : "creating"))
+      .catch((error) => {
+        console.error(error);
+        setStage("creating");
+      });
+  }, [refreshVaultStatus]);
 
   useEffect(() => {
     if (stage === "unlocked") {
@@ -226,6 +495,16 @@ export default function HomePage() {
     }
   }, [stage]);
 
+  useEffect(() => {
+    if (stage !== "unlocked") {
+      return;
+    }
+    // meta.updatedAt changes on every save, which is also when a snapshot may be taken.
+    loadVaultSnapshots()
+      .then(setSnapshots)
+      .catch((error) => console.error(error));
+  }, [meta, stage]);
+
   useEffect(() => {
     if (stage !== "unlocked") {
       setDraft(initialDraft);
@@ -233,6 +512,18 @@ export default function HomePage() {
       setDraftError(null);
       setMasterChange({ next: "", confirm: "" });
       setMasterChangeError(null);
+      setPendingRecoveryKey(null);
+      setImportFile(null);
+      setImportPassword("");
+      setImportError(null);
+      setCredentialImport(null);
+      setSelectedImportKeys([]);
+      setCredentialImportError(null);
+      setPlaintextExport(initialPlaintextExport);
+      setPlaintextExportError(null);
+      setSnapshots([]);
+      setSnapshotPassword("");
+      setSnapshotError(null);
       setRevealedEntries([]);
       revealTimeoutsRef.current.forEach((timeoutId) => {
         window.clearTimeout(timeoutId);
@@ -259,9 +550,30 @@ export default function HomePage() {
 
   const sortedEntries = useMemo(() => {
     if (!vault) return [];
-    return [...vault.entries].sort((a, b) => b.updatedAt - a.updatedAt);
+    // Favourites first, each group newest first.
+    return [...vault.entries].sort(
+      (a, b) =>
+        Number(Boolean(b.favorite)) - Number(Boolean(a.favorite)) || b.updatedAt - a.updatedAt,
+    );
   }, [vault]);
 
+  const searchIndex = useMemo(() => buildSearchIndex(sortedEntries), [sortedEntries]);
+
+  // Ranked by relevance while a query is typed, otherwise in list order.
+  const visibleEntries = useMemo(
+    () => searchIndex.search(entryQuery).filter((entry) => matchesEntryFilter(entry, entryFilter)),
+    [searchIndex, entryFilter, entryQuery],
+  );
+
+  const folderTree = useMemo(() => buildFolderTree(vault?.entries ?? []), [vault]);
+  const folderPaths = useMemo(() => listFolderPaths(folderTree), [folderTree]);
+  const tagSummaries = useMemo(() => collectTags(vault?.entries ?? []), [vault]);
+  const passwordReuse = useMemo(() => findPasswordReuse(vault?.entries ?? []), [vault]);
+  const selectedIds = useMemo(
+    () => selectedEntryIds.filter((id) => vault?.entries.some((entry) => entry.id === id)),
+    [selectedEntryIds, vault],
+  );
+
   const strength = useMemo(() => {
     if (!draft.password) return null;
     return assessStrength(draft.password);
@@ -272,29 +584,67 @@ export default function HomePage() {
     [checkingEntries],
   );
 
-  const addToast = useCallback((text: string, kind: ToastKind) => {
-    toastId.current += 1;
-    const id = toastId.current;
-    setToasts((prev) => [...prev, { id, text, kind }]);
-    setTimeout(() => {
-      setToasts((prev) => prev.filter((toast) => toast.id !== id));
-    }, 3600);
+  const markChecking = useCallback((entryIds: string[], checking: boolean) => {
+    setCheckingEntries((prev) =>
+      checking
+        ? Array.from(new Set([...prev, ...entryIds]))
+        : prev.filter((id) => !entryIds.includes(id)),
+    );
   }, []);
 
   const refreshSecurityState = useCallback(() => {
     setSecurityState(getSecurityState());
   }, []);
 
-  const registerInteraction = useCallback(() => {
-    lastInteractionRef.current = Date.now();
-  }, []);
+  const applyVaultUpdate = useCallback(
+    async (
+      transform: (current: VaultPayload) => VaultPayload,
+      options: { background?: boolean } = {},
+    ) => {
+      if (!vaultRef.current) {
+        throw new Error("No vault loaded.");
+      }
+      if (!keyringRef.current) {
+        throw new Error("Vault key not available.");
+      }
+      const next = transform(vaultRef.current);
+      vaultRef.current = next;
+      setVault(next);
+      await persistVault(keyringRef.current, next);
+      setMeta(await loadVaultMeta());
+      // Background work must not count as activity, or it would hold off the auto-lock.
+      if (!options.background) {
+        registerInteraction();
+      }
+    },
+    [registerInteraction],
+  );
+
+  const {
+    inputRef: attachmentInputRef,
+    preview: attachmentPreview,
+    attachingEntryId,
+    pickFiles: handleAttachClick,
+    handleFileChange: handleAttachmentFileChange,
+    download: handleDownloadAttachment,
+    openPreview: handlePreviewAttachment,
+    closePreview: closeAttachmentPreview,
+    remove: handleRemoveAttachment,
+    discardUnused: discardUnusedAttachments,
+  } = useAttachments({ keyringRef, vaultRef, applyVaultUpdate, addToast, registerInteraction });
 
   const lockVault = useCallback(
     (message?: string) => {
-      masterSecretRef.current = "";
+      keyringRef.current = null;
       vaultRef.current = null;
       setVault(null);
       setRevealedEntries([]);
+      setEntryQuery("");
+      setEntryFilter({ kind: "all" });
+      setSelectedEntryIds([]);
+      setIsReportOpen(false);
+      closeAttachmentPreview();
+      closeLeakCache();
       revealTimeoutsRef.current.forEach((timeoutId) => {
         window.clearTimeout(timeoutId);
       });
@@ -308,20 +658,19 @@ export default function HomePage() {
           console.warn("Vaultlight: failed to clear clipboard.", error);
         });
       }
-      const exists =
-        typeof window !== "undefined" ? vaultExists() : hasExistingVault;
-      setHasExistingVault(exists);
-      const metaSnapshot =
-        typeof window !== "undefined" ? loadVaultMeta() : null;
-      setMeta(metaSnapshot);
-      setStage(exists ? "locked" : "creating");
+      setStage(hasExistingVault ? "locked" : "creating");
+      refreshVaultStatus()
+        .then((exists) => setStage(exists ? "locked" : "creating"))
+        .catch((error) => console.error(error));
       addToast(message ?? "Vault locked.", "info");
       refreshSecurityState();
     },
     [
       addToast,
+      closeAttachmentPreview,
       hasExistingVault,
       refreshSecurityState,
+      refreshVaultStatus,
       userSettings.clipboardAutoClear,
       userSettings.paranoidMode,
     ],
@@ -377,7 +726,7 @@ export default function HomePage() {
     }, 10_000);
 
     const handleBeforeUnload = () => {
-      masterSecretRef.current = "";
+      keyringRef.current = null;
     };
 
     window.addEventListener("beforeunload", handleBeforeUnload);
@@ -393,23 +742,16 @@ export default function HomePage() {
     };
   }, [autoLockMs, lockVault, registerInteraction, stage, userSettings.paranoidMode]);
 
-  const applyVaultUpdate = useCallback(
-    async (transform: (current: VaultPayload) => VaultPayload) => {
-      if (!vaultRef.current) {
-        throw new Error("No vault loaded.");
-      }
-      if (!masterSecretRef.current) {
-        throw new Error("Master password not available.");
-      }
-      const next = transform(vaultRef.current);
-      vaultRef.current = next;
-      setVault(next);
-      await persistVault(masterSecretRef.current, next);
-      setMeta(loadVaultMeta());
-      registerInteraction();
-    },
-    [registerInteraction],
-  );
+  const { syncEndpoint, syncStatus, runSync } = useVaultSync({
+    settings: userSettings,
+    unlocked: stage === "unlocked",
+    meta,
+    keyringRef,
+    vaultRef,
+    setVault,
+    onSynced: refreshVaultStatus,
+    addToast,
+  });
 
   const handleUnlock = useCallback(async () => {
     if (!masterInput) {
@@ -422,57 +764,43 @@ export default function HomePage() {
     }
 
     const currentSecurity = getSecurityState();
-    const now = Date.now();
-    if (currentSecurity.requiresReset) {
-      setUnlockError(
-        "Security shield active. Reset the vault before trying again.",
-      );
-      setStage(hasExistingVault ? "locked" : "creating");
-      return;
-    }
-    if (currentSecurity.lockUntil > now) {
-      setUnlockError(
-        `Too many failed attempts. Try again in ${formatCountdown(currentSecurity.lockUntil - now)}.`,
-      );
+    const blocked = shieldBlockMessage(currentSecurity, Date.now());
+    if (blocked) {
+      setUnlockError(blocked);
+      if (currentSecurity.requiresReset) {
+        setStage(hasExistingVault ? "locked" : "creating");
+      }
       return;
     }
 
     setIsUnlocking(true);
     setUnlockError(null);
     try {
-      const result = await unlockVault(masterInput);
-      masterSecretRef.current = masterInput;
+      const result = await unlockVault(
+        { method: "master", password: masterInput },
+        userSettings.vaultKdf,
+      );
+      keyringRef.current = result.keyring;
       setMasterInput("");
       setMasterConfirm("");
       vaultRef.current = result.payload;
       setVault(result.payload);
       setStage("unlocked");
       registerInteraction();
-      if (result.isNewVault) {
-        await persistVault(masterInput, result.payload);
+      if (result.needsPersist) {
+        await persistVault(result.keyring, result.payload);
         setHasExistingVault(true);
       }
-      setMeta(loadVaultMeta());
+      setMeta(await loadVaultMeta());
       addToast("Vault unlocked.", "success");
       const updatedSecurity = recordUnlockSuccess();
       setSecurityState(updatedSecurity);
+      void runSync(masterInput);
     } catch (error) {
       console.error(error);
       const updatedSecurity = recordUnlockFailure();
       setSecurityState(updatedSecurity);
-      if (updatedSecurity.requiresReset) {
-        setUnlockError(
-          "Security shield active—the vault is locked. Reset the vault to continue.",
-        );
-      } else if (updatedSecurity.lockUntil > Date.now()) {
-        setUnlockError(
-          `Master password invalid. Vault temporarily locked (${formatCountdown(
-            updatedSecurity.lockUntil - Date.now(),
-          )}).`,
-        );
-      } else {
-        setUnlockError("Master password incorrect or vault corrupted.");
-      }
+      setUnlockError(unlockFailureMessage(updatedSecurity, "Master password"));
       setStage(hasExistingVault ? "locked" : "creating");
     } finally {
       setIsUnlocking(false);
@@ -485,129 +813,536 @@ export default function HomePage() {
     masterInput,
     refreshSecurityState,
     registerInteraction,
+    runSync,
     stage,
+    userSettings.vaultKdf,
   ]);
 
-  const handleResetVault = useCallback(() => {
-    const confirmed = window.confirm(
-      "This will permanently delete all stored credentials. Continue?",
-    );
-    if (!confirmed) return;
-    resetVault();
-    resetSecurityState();
-    refreshSecurityState();
-    lockVault("Vault reset.");
-  }, [lockVault, refreshSecurityState]);
+  const handlePasskeyUnlock = useCallback(async () => {
+    const blocked = shieldBlockMessage(getSecurityState(), Date.now());
+    if (blocked) {
+      setUnlockError(blocked);
+      return;
+    }
 
-  const handleGeneratePassword = useCallback(() => {
+    setIsUnlocking(true);
+    setUnlockError(null);
     try {
-      const newPassword = generatePassword(passwordOptions);
-      setDraft((prev) => ({ ...prev, password: newPassword }));
+      const result = await unlockVault({ method: "passkey" });
+      keyringRef.current = result.keyring;
+      setMasterInput("");
+      vaultRef.current = result.payload;
+      setVault(result.payload);
+      setStage("unlocked");
+      registerInteraction();
+      if (result.needsPersist) {
+        await persistVault(result.keyring, result.payload);
+      }
+      setMeta(await loadVaultMeta());
+      addToast("Vault unlocked with passkey.", "success");
+      setSecurityState(recordUnlockSuccess());
+      void runSync();
     } catch (error) {
-      addToast(
-        error instanceof Error ? error.message : "Generator error",
-        "error",
-      );
+      // A cancelled or unsupported prompt is not a guessed password, so the shield is not charged.
+      console.error(error);
+      setUnlockError("Passkey unlock failed or was cancelled. Use the master password instead.");
+    } finally {
+      setIsUnlocking(false);
+      refreshSecurityState();
     }
-  }, [addToast, passwordOptions]);
-
-  const handleDraftChange = useCallback(
-    (key: keyof typeof initialDraft, value: string) => {
-      setDraft((prev) => ({ ...prev, [key]: value }));
-    },
-    [],
-  );
+  }, [addToast, refreshSecurityState, registerInteraction, runSync]);
 
-  const handlePasswordOptionChange = useCallback(
-    (key: keyof PasswordOptions, value: boolean | number) => {
-      generatorCustomizedRef.current = true;
-      setPasswordOptions((prev) => ({ ...prev, [key]: value }));
+  const handleRecoveryInputChange = useCallback(
+    (key: keyof typeof initialRecoveryInput, value: string) => {
+      setRecoveryInput((prev) => ({ ...prev, [key]: value }));
     },
     [],
   );
 
-  const handleEditEntry = useCallback(
-    (entry: VaultEntry) => {
-      setEditingEntryId(entry.id);
-      setDraft({
-        label: entry.label,
-        username: entry.username,
-        password: entry.password,
-        notes: entry.notes ?? "",
-        url: entry.url ?? entry.domain ?? "",
-      });
-      setDraftError(null);
-      registerInteraction();
-    },
-    [registerInteraction],
-  );
-
-  const handleCancelEdit = useCallback(() => {
-    setEditingEntryId(null);
-    setDraft(initialDraft);
-    setDraftError(null);
+  const handleToggleUnlockMode = useCallback(() => {
+    setUnlockMode((prev) => (prev === "master" ? "recovery" : "master"));
+    setRecoveryInput(initialRecoveryInput);
+    setUnlockError(null);
   }, []);
 
-  const handleMasterChangeInput = useCallback(
-    (key: "next" | "confirm", value: string) => {
-      setMasterChange((prev) => ({ ...prev, [key]: value }));
-      setMasterChangeError(null);
-      registerInteraction();
-    },
-    [registerInteraction],
-  );
-
-  const handleRotateMasterPassword = useCallback(async () => {
-    if (!vaultRef.current || !masterSecretRef.current) {
-      setMasterChangeError("Vault is not unlocked.");
-      return;
-    }
-    if (!masterChange.next) {
-      setMasterChangeError("Please enter a new master password.");
+  const handleRecoverVault = useCallback(async () => {
+    if (!recoveryInput.key.trim()) {
+      setUnlockError("Please enter your recovery key.");
       return;
     }
-    if (masterChange.next.length < 12) {
-      setMasterChangeError("Please use at least 12 characters.");
+    if (recoveryInput.next.length < 12) {
+      setUnlockError("Please use at least 12 characters for the new master password.");
       return;
     }
-    if (masterChange.next !== masterChange.confirm) {
-      setMasterChangeError("Confirmation does not match the new password.");
+    if (recoveryInput.next !== recoveryInput.confirm) {
+      setUnlockError("Passwords do not match.");
       return;
     }
-    if (masterChange.next === masterSecretRef.current) {
-      setMasterChangeError("New master password must differ from the current one.");
+    const blocked = shieldBlockMessage(getSecurityState(), Date.now());
+    if (blocked) {
+      setUnlockError(blocked);
       return;
     }
+
+    setIsUnlocking(true);
+    setUnlockError(null);
     try {
-      await persistVault(masterChange.next, vaultRef.current);
-      masterSecretRef.current = masterChange.next;
-      setMasterChange({ next: "", confirm: "" });
-      setMasterChangeError(null);
-      setMeta(loadVaultMeta());
-      addToast("Master password updated.", "success");
+      const result = await unlockVault({ method: "recovery", recoveryKey: recoveryInput.key });
+      if (result.needsPersist) {
+        await persistVault(result.keyring, result.payload);
+      }
+      keyringRef.current = await rotateMasterPassword(
+        result.keyring,
+        recoveryInput.next,
+        userSettings.vaultKdf,
+      );
+      setRecoveryInput(initialRecoveryInput);
+      setUnlockMode("master");
+      vaultRef.current = result.payload;
+      setVault(result.payload);
+      setStage("unlocked");
       registerInteraction();
+      setMeta(await loadVaultMeta());
+      addToast("Vault recovered. Your new master password is active.", "success");
+      setSecurityState(recordUnlockSuccess());
+      void runSync(recoveryInput.next);
     } catch (error) {
       console.error(error);
-      setMasterChangeError("Master password could not be updated.");
+      const updatedSecurity = recordUnlockFailure();
+      setSecurityState(updatedSecurity);
+      setUnlockError(unlockFailureMessage(updatedSecurity, "Recovery key"));
+    } finally {
+      setIsUnlocking(false);
+      refreshSecurityState();
     }
   }, [
     addToast,
-    masterChange.confirm,
-    masterChange.next,
+    recoveryInput,
+    refreshSecurityState,
     registerInteraction,
+    runSync,
+    userSettings.vaultKdf,
   ]);
 
-  const queueLeakCheck = useCallback(
-    async (entryId: string, password: string) => {
-      if (!userSettings.leakChecksEnabled) {
+  const handleGenerateRecoveryKey = useCallback(async () => {
+    if (!keyringRef.current) return;
+    if (
+      hasRecoverySlot &&
+      !window.confirm(
+        "A new recovery key replaces the current one; your existing emergency kit stops working. Continue?",
+      )
+    ) {
+      return;
+    }
+    try {
+      const enrollment = await enrollRecoveryKey(keyringRef.current);
+      keyringRef.current = enrollment.keyring;
+      setPendingRecoveryKey(enrollment.recoveryKey);
+      setHasRecoverySlot(true);
+      setMeta(await loadVaultMeta());
+      registerInteraction();
+    } catch (error) {
+      console.error(error);
+      addToast("Recovery key could not be created.", "error");
+    }
+  }, [addToast, hasRecoverySlot, registerInteraction]);
+
+  const handleExportEmergencyKit = useCallback(
+    (mode: "download" | "print") => {
+      if (!pendingRecoveryKey) return;
+      const html = buildEmergencyKitHtml({
+        recoveryKey: pendingRecoveryKey,
+        createdAt: Date.now(),
+        appUrl: window.location.origin,
+      });
+      if (mode === "download") {
+        downloadFile("vaultlight-emergency-kit.html", html, "text/html");
+        return;
+      }
+      const printWindow = window.open("", "_blank");
+      if (!printWindow) {
+        addToast("Pop-up blocked. Download the kit instead.", "error");
         return;
       }
+      printWindow.document.write(html);
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+    },
+    [addToast, pendingRecoveryKey],
+  );
+
+  const handleExportVault = useCallback(async () => {
+    try {
+      const file = await createVaultExport();
+      downloadFile(
+        vaultExportFilename(file.exportedAt),
+        serializeVaultExport(file),
+        "application/json",
+      );
+      addToast("Encrypted backup exported.", "success");
       registerInteraction();
-      setCheckingEntries((prev) => [...new Set([...prev, entryId])]);
+    } catch (error) {
+      console.error(error);
+      addToast("Export failed.", "error");
+    }
+  }, [addToast, registerInteraction]);
+
+  const handleImportFileChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      setImportFile(null);
+      setImportError(null);
+      if (!file) return;
       try {
-        const exposure = await checkPasswordAgainstLeaks(password);
-        await applyVaultUpdate((current) => ({
-          ...current,
+        setImportFile(parseVaultExport(await file.text()));
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : "File could not be read.");
+      }
+      registerInteraction();
+    },
+    [registerInteraction],
+  );
+
+  const resetImport = useCallback(() => {
+    setImportFile(null);
+    setImportPassword("");
+    setImportError(null);
+    if (importInputRef.current) {
+      importInputRef.current.value = "";
+    }
+  }, []);
+
+  const handleImportVault = useCallback(
+    async (mode: "replace" | "merge") => {
+      if (!importFile || !vaultRef.current || !keyringRef.current) return;
+      if (!importPassword) {
+        setImportError("Enter the master password the backup was created with.");
+        return;
+      }
+      if (
+        mode === "replace" &&
+        !window.confirm(
+          "Replace the current vault with this backup? Entries that only exist here will be lost, and the backup's master password becomes the active one.",
+        )
+      ) {
+        return;
+      }
+      setIsImporting(true);
+      setImportError(null);
+      try {
+        let verified: VerifiedImport;
+        try {
+          verified = await verifyVaultExport(importFile, importPassword);
+        } catch (error) {
+          console.error(error);
+          setImportError("Master password incorrect or backup corrupted.");
+          return;
+        }
+        if (mode === "replace") {
+          await restoreExportAttachments(importFile, verified.payload);
+          await persistVault(verified.keyring, verified.payload);
+          await pruneAttachments(verified.keyring, verified.payload);
+          keyringRef.current = verified.keyring;
+          vaultRef.current = verified.payload;
+          setVault(verified.payload);
+          setHasRecoverySlot(await hasRecoveryKey());
+          await reloadPasskeys();
+          setMeta(await loadVaultMeta());
+          addToast("Vault replaced from backup.", "success");
+        } else {
+          const summary = mergeVaultPayloads(vaultRef.current, verified.payload);
+          await restoreExportAttachments(importFile, summary.payload);
+          await applyVaultUpdate(() => summary.payload);
+          addToast(
+            `Backup merged: ${summary.added} added, ${summary.updated} updated.`,
+            "success",
+          );
+        }
+        resetImport();
+      } catch (error) {
+        console.error(error);
+        setImportError("Import failed.");
+      } finally {
+        setIsImporting(false);
+        registerInteraction();
+      }
+    },
+    [
+      addToast,
+      applyVaultUpdate,
+      importFile,
+      importPassword,
+      registerInteraction,
+      reloadPasskeys,
+      resetImport,
+    ],
+  );
+
+  const handlePlaintextExport = useCallback(async () => {
+    if (!vaultRef.current || !keyringRef.current) return;
+    if (userSettings.paranoidMode && !plaintextExport.override) {
+      setPlaintextExportError("Paranoid mode blocks plaintext exports. Confirm the override first.");
+      return;
+    }
+    if (!plaintextExport.password) {
+      setPlaintextExportError("Re-enter the master password to export.");
+      return;
+    }
+    try {
+      if (!(await verifyMasterPassword(keyringRef.current, plaintextExport.password))) {
+        setPlaintextExportError("Master password incorrect.");
+        return;
+      }
+      if (
+        !window.confirm(
+          "The exported file contains every password in plain text. Anyone who can read it can use your accounts. Continue?",
+        )
+      ) {
+        return;
+      }
+      const { format } = plaintextExport;
+      const entries = vaultRef.current.entries;
+      downloadFile(
+        plaintextExportFilename(format, Date.now()),
+        format === "csv" ? buildBitwardenCsv(entries) : buildBitwardenJson(entries),
+        format === "csv" ? "text/csv" : "application/json",
+      );
+      setPlaintextExport(initialPlaintextExport);
+      setPlaintextExportError(null);
+      addToast("Plaintext export downloaded. Delete it once you are done.", "info");
+    } catch (error) {
+      console.error(error);
+      setPlaintextExportError("Export failed.");
+    } finally {
+      registerInteraction();
+    }
+  }, [addToast, plaintextExport, registerInteraction, userSettings.paranoidMode]);
+
+  const handleRestoreSnapshot = useCallback(
+    async (snapshot: VaultSnapshot) => {
+      if (!keyringRef.current) return;
+      if (!snapshotPassword) {
+        setSnapshotError("Enter the master password to restore a snapshot.");
+        return;
+      }
+      if (
+        !window.confirm(
+          `Restore the vault as saved on ${formatTimestamp(snapshot.createdAt)}? Later changes move into a new snapshot.`,
+        )
+      ) {
+        return;
+      }
+      setRestoringSnapshotId(snapshot.id);
+      setSnapshotError(null);
+      try {
+        const restored = await restoreVaultSnapshot(
+          keyringRef.current,
+          snapshot.id,
+          snapshotPassword,
+        );
+        keyringRef.current = restored.keyring;
+        vaultRef.current = restored.payload;
+        setVault(restored.payload);
+        setHasRecoverySlot(await hasRecoveryKey());
+        await reloadPasskeys();
+        setMeta(await loadVaultMeta());
+        setSnapshotPassword("");
+        addToast("Snapshot restored.", "success");
+      } catch (error) {
+        console.error(error);
+        setSnapshotError("Snapshot could not be decrypted with this master password.");
+      } finally {
+        setRestoringSnapshotId(null);
+        registerInteraction();
+      }
+    },
+    [addToast, registerInteraction, reloadPasskeys, snapshotPassword],
+  );
+
+  const handleResetVault = useCallback(async () => {
+    const confirmed = window.confirm(
+      "This will permanently delete all stored credentials. Continue?",
+    );
+    if (!confirmed) return;
+    try {
+      await resetVault();
+    } catch (error) {
+      console.error(error);
+      addToast("Vault could not be deleted.", "error");
+      return;
+    }
+    resetSecurityState();
+    refreshSecurityState();
+    lockVault("Vault reset.");
+  }, [addToast, lockVault, refreshSecurityState]);
+
+  const handleGeneratePassword = useCallback(() => {
+    try {
+      const newPassword = generatePassword(passwordOptions);
+      setDraft((prev) => ({ ...prev, password: newPassword }));
+    } catch (error) {
+      addToast(
+        error instanceof Error ? error.message : "Generator error",
+        "error",
+      );
+    }
+  }, [addToast, passwordOptions]);
+
+  const handleDraftChange = useCallback(
+    (key: DraftTextField, value: string) => {
+      setDraft((prev) => ({ ...prev, [key]: value }));
+    },
+    [],
+  );
+
+  const handleTemplateChange = useCallback((templateId: EntryTemplateId) => {
+    setDraft((prev) => ({
+      ...prev,
+      template: templateId,
+      fields: applyTemplateFields(getEntryTemplate(templateId), prev.fields),
+    }));
+    setDraftError(null);
+  }, []);
+
+  const handleDraftFieldChange = useCallback(
+    (fieldId: string, patch: Partial<Omit<CustomField, "id">>) => {
+      setDraft((prev) => ({
+        ...prev,
+        fields: prev.fields.map((field) =>
+          field.id === fieldId ? { ...field, ...patch } : field,
+        ),
+      }));
+    },
+    [],
+  );
+
+  const handleAddDraftField = useCallback(() => {
+    setDraft((prev) => ({ ...prev, fields: [...prev.fields, createCustomField()] }));
+  }, []);
+
+  const handleRemoveDraftField = useCallback((fieldId: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      fields: prev.fields.filter((field) => field.id !== fieldId),
+    }));
+  }, []);
+
+  const handlePasswordOptionChange = useCallback(
+    (key: keyof PasswordOptions, value: boolean | number) => {
+      generatorCustomizedRef.current = true;
+      setPasswordOptions((prev) => ({ ...prev, [key]: value }));
+    },
+    [],
+  );
+
+  const handleEditEntry = useCallback(
+    (entry: VaultEntry) => {
+      setEditingEntryId(entry.id);
+      setDraft({
+        template: entry.template ?? "login",
+        label: entry.label,
+        username: entry.username,
+        password: entry.password,
+        notes: entry.notes ?? "",
+        url: entry.url ?? entry.domain ?? "",
+        totp: entry.totp ? buildOtpauthUri(entry.totp) : "",
+        fields: applyTemplateFields(getEntryTemplate(entry.template), entry.fields ?? []),
+        folder: entry.folder ?? "",
+        tags: (entry.tags ?? []).join(", "),
+      });
+      setDraftError(null);
+      registerInteraction();
+    },
+    [registerInteraction],
+  );
+
+  const handleFixEntry = useCallback(
+    (entryId: string) => {
+      const entry = vault?.entries.find((candidate) => candidate.id === entryId);
+      if (!entry) return;
+      handleEditEntry(entry);
+      entryFormRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    },
+    [handleEditEntry, vault],
+  );
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingEntryId(null);
+    setDraft(initialDraft);
+    setDraftError(null);
+  }, []);
+
+  const handleMasterChangeInput = useCallback(
+    (key: "next" | "confirm", value: string) => {
+      setMasterChange((prev) => ({ ...prev, [key]: value }));
+      setMasterChangeError(null);
+      registerInteraction();
+    },
+    [registerInteraction],
+  );
+
+  const handleRotateMasterPassword = useCallback(async () => {
+    if (!vaultRef.current || !keyringRef.current) {
+      setMasterChangeError("Vault is not unlocked.");
+      return;
+    }
+    if (!masterChange.next) {
+      setMasterChangeError("Please enter a new master password.");
+      return;
+    }
+    if (masterChange.next.length < 12) {
+      setMasterChangeError("Please use at least 12 characters.");
+      return;
+    }
+    if (masterChange.next !== masterChange.confirm) {
+      setMasterChangeError("Confirmation does not match the new password.");
+      return;
+    }
+    try {
+      if (await verifyMasterPassword(keyringRef.current, masterChange.next)) {
+        setMasterChangeError("New master password must differ from the current one.");
+        return;
+      }
+      keyringRef.current = await rotateMasterPassword(
+        keyringRef.current,
+        masterChange.next,
+        userSettings.vaultKdf,
+      );
+      setMasterChange({ next: "", confirm: "" });
+      setMasterChangeError(null);
+      setMeta(await loadVaultMeta());
+      addToast("Master password updated.", "success");
+      registerInteraction();
+    } catch (error) {
+      console.error(error);
+      setMasterChangeError("Master password could not be updated.");
+    }
+  }, [
+    addToast,
+    masterChange.confirm,
+    masterChange.next,
+    registerInteraction,
+    userSettings.vaultKdf,
+  ]);
+
+  const queueLeakCheck = useCallback(
+    async (
+      entryId: string,
+      password: string,
+      options: { silent?: boolean; bypassCache?: boolean } = {},
+    ) => {
+      if (!userSettings.leakChecksEnabled) {
+        return;
+      }
+      registerInteraction();
+      setCheckingEntries((prev) => [...new Set([...prev, entryId])]);
+      try {
+        const exposure = await checkPasswordAgainstLeaks(password, {
+          bypassCache: options.bypassCache,
+        });
+        await applyVaultUpdate((current) => ({
+          ...current,
           entries: current.entries.map((existing) =>
             existing.id === entryId
               ? {
@@ -618,7 +1353,9 @@ export default function HomePage() {
               : existing,
           ),
         }));
-        addToast("Leak check complete.", "success");
+        if (!options.silent) {
+          addToast("Leak check complete.", "success");
+        }
       } catch (error) {
         console.error(error);
         await applyVaultUpdate((current) => ({
@@ -642,7 +1379,9 @@ export default function HomePage() {
               : existing,
           ),
         }));
-        addToast("Leak check failed.", "error");
+        if (!options.silent) {
+          addToast("Leak check failed.", "error");
+        }
       } finally {
         setCheckingEntries((prev) => prev.filter((id) => id !== entryId));
       }
@@ -650,23 +1389,61 @@ export default function HomePage() {
     [addToast, applyVaultUpdate, registerInteraction, userSettings.leakChecksEnabled],
   );
 
+  // The leak cache is sealed under the data key, so it is only readable while the vault is unlocked.
+  useEffect(() => {
+    if (stage !== "unlocked" || !keyringRef.current) return;
+    void openLeakCache(keyringRef.current);
+  }, [stage]);
+
+  const { rescanNow: rescanLeaksNow } = useLeakRescan({
+    enabled: stage === "unlocked" && userSettings.leakChecksEnabled,
+    vaultRef,
+    applyVaultUpdate,
+    markChecking,
+  });
+
   const handleSaveEntry = useCallback(async () => {
-    if (!vaultRef.current || !masterSecretRef.current) {
+    if (!vaultRef.current || !keyringRef.current) {
       setDraftError("Vault is not unlocked.");
       return;
     }
-    if (!draft.password) {
-      setDraftError("Please add or generate a password.");
+    const template = getEntryTemplate(draft.template);
+    if (template.credentials === "required" && !draft.password) {
+      setDraftError(`Please add or generate a ${template.passwordLabel.toLowerCase()}.`);
+      return;
+    }
+    if (template.noteIsContent && !draft.notes.trim()) {
+      setDraftError("Please write the note.");
+      return;
+    }
+    const fields = normalizeCustomFields(draft.fields);
+    const fieldError = fields.map(validateCustomField).find(Boolean);
+    if (fieldError) {
+      setDraftError(fieldError);
+      return;
+    }
+    let totp: VaultEntry["totp"];
+    try {
+      totp = draft.totp.trim() ? parseTotpInput(draft.totp) : undefined;
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : "Invalid one-time code secret.");
       return;
     }
     setDraftError(null);
 
+    const usesCredentials = template.credentials !== "none";
+    const password = usesCredentials ? draft.password : "";
     const trimmedLabel = draft.label.trim() || "Untitled";
-    const trimmedUsername = draft.username.trim();
+    const trimmedUsername = usesCredentials ? draft.username.trim() : "";
+    const storedTemplate = template.id === "login" ? undefined : template.id;
+    const storedFields = fields.length > 0 ? fields : undefined;
     const normalizedNotes = draft.notes.trim() ? draft.notes.trim() : undefined;
     const trimmedUrl = draft.url.trim();
     const normalizedDomain = trimmedUrl ? normalizeHost(trimmedUrl) : undefined;
     const storedUrl = trimmedUrl || undefined;
+    const storedFolder = normalizeFolderPath(draft.folder);
+    const tags = parseTags(draft.tags);
+    const storedTags = tags.length > 0 ? tags : undefined;
     const now = Date.now();
 
     if (editingEntryId) {
@@ -678,10 +1455,16 @@ export default function HomePage() {
                 ...existing,
                 label: trimmedLabel,
                 username: trimmedUsername,
-                password: draft.password,
+                password,
+                passwordHistory: recordPasswordChange(existing, password, now),
                 notes: normalizedNotes,
                 url: storedUrl,
                 domain: normalizedDomain,
+                totp,
+                template: storedTemplate,
+                fields: storedFields,
+                folder: storedFolder,
+                tags: storedTags,
                 updatedAt: now,
                 exposure: {
                   status: "pending",
@@ -696,9 +1479,9 @@ export default function HomePage() {
       const entryId = editingEntryId;
       setEditingEntryId(null);
       setDraft(initialDraft);
-      if (userSettings.leakChecksEnabled) {
+      if (password && userSettings.leakChecksEnabled) {
         addToast("Entry updated. Breach check running...", "info");
-        await queueLeakCheck(entryId, draft.password);
+        await queueLeakCheck(entryId, password);
       } else {
         addToast("Entry updated locally.", "success");
       }
@@ -708,10 +1491,15 @@ export default function HomePage() {
     const entry = initializeVaultEntry({
       label: trimmedLabel,
       username: trimmedUsername,
-      password: draft.password,
+      password,
       notes: normalizedNotes,
       url: storedUrl,
       domain: normalizedDomain,
+      totp,
+      template: storedTemplate,
+      fields: storedFields,
+      folder: storedFolder,
+      tags: storedTags,
     });
 
     await applyVaultUpdate((current) => ({
@@ -720,7 +1508,7 @@ export default function HomePage() {
     }));
 
     setDraft(initialDraft);
-    if (userSettings.leakChecksEnabled) {
+    if (password && userSettings.leakChecksEnabled) {
       addToast("Entry saved. Breach check running...", "info");
       await queueLeakCheck(entry.id, entry.password);
     } else {
@@ -729,9 +1517,14 @@ export default function HomePage() {
   }, [
     addToast,
     applyVaultUpdate,
+    draft.fields,
+    draft.folder,
     draft.label,
     draft.notes,
     draft.password,
+    draft.tags,
+    draft.template,
+    draft.totp,
     draft.username,
     draft.url,
     editingEntryId,
@@ -739,9 +1532,206 @@ export default function HomePage() {
     userSettings.leakChecksEnabled,
   ]);
 
+  const handleCredentialFileChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      setCredentialImport(null);
+      setSelectedImportKeys([]);
+      setCredentialImportError(null);
+      if (!file || !vaultRef.current) return;
+      try {
+        const parsed = parseCredentialExport(await file.text());
+        if (parsed.credentials.length === 0) {
+          setCredentialImportError("No logins found in this file.");
+          return;
+        }
+        const items = buildImportPreview(parsed.credentials, vaultRef.current.entries);
+        setCredentialImport({ source: parsed.source, skipped: parsed.skipped, items });
+        setSelectedImportKeys(items.filter((item) => !item.duplicate).map((item) => item.key));
+      } catch (error) {
+        setCredentialImportError(
+          error instanceof Error ? error.message : "File could not be read.",
+        );
+      } finally {
+        registerInteraction();
+      }
+    },
+    [registerInteraction],
+  );
+
+  const resetCredentialImport = useCallback(() => {
+    setCredentialImport(null);
+    setSelectedImportKeys([]);
+    setCredentialImportError(null);
+    if (credentialImportInputRef.current) {
+      credentialImportInputRef.current.value = "";
+    }
+  }, []);
+
+  const handleToggleImportItem = useCallback((key: string) => {
+    setSelectedImportKeys((prev) =>
+      prev.includes(key) ? prev.filter((existing) => existing !== key) : [...prev, key],
+    );
+  }, []);
+
+  const handleImportCredentials = useCallback(async () => {
+    if (!credentialImport || !vaultRef.current || !keyringRef.current) return;
+    const entries = credentialImport.items
+      .filter((item) => selectedImportKeys.includes(item.key))
+      .map((item) =>
+        initializeVaultEntry({
+          label: item.credential.label,
+          username: item.credential.username,
+          password: item.credential.password,
+          notes: item.credential.notes,
+          url: item.credential.url,
+          totp: item.credential.totp,
+          fields: item.credential.fields,
+          folder: item.credential.folder,
+          favorite: item.credential.favorite,
+          domain: item.domain,
+        }),
+      );
+    if (entries.length === 0) {
+      setCredentialImportError("Select at least one entry to import.");
+      return;
+    }
+    setIsImporting(true);
+    try {
+      await applyVaultUpdate((current) => ({
+        ...current,
+        entries: [...entries, ...current.entries],
+      }));
+      resetCredentialImport();
+    } catch (error) {
+      console.error(error);
+      setCredentialImportError("Import failed.");
+      return;
+    } finally {
+      setIsImporting(false);
+    }
+
+    if (!userSettings.leakChecksEnabled || !entries.some((entry) => entry.password)) {
+      addToast(`${entries.length} entries imported.`, "success");
+      return;
+    }
+    addToast(`${entries.length} entries imported. Breach checks running...`, "info");
+    // Imported entries were never checked, so the batched rescan picks up every one with a
+    // password and writes all results in a single vault update.
+    rescanLeaksNow();
+  }, [
+    addToast,
+    applyVaultUpdate,
+    credentialImport,
+    rescanLeaksNow,
+    resetCredentialImport,
+    selectedImportKeys,
+    userSettings.leakChecksEnabled,
+  ]);
+
+  const handleToggleFavorite = useCallback(
+    async (entry: VaultEntry) => {
+      try {
+        await applyVaultUpdate((current) => setFavorite(current, entry.id, !entry.favorite));
+      } catch (error) {
+        console.error(error);
+        addToast("Favourite could not be saved.", "error");
+      }
+    },
+    [addToast, applyVaultUpdate],
+  );
+
+  const handleRestorePassword = useCallback(
+    async (entry: VaultEntry, changedAt: number) => {
+      if (!window.confirm(`Restore this previous password for "${entry.label}"?`)) return;
+      const now = Date.now();
+      let restored: VaultEntry;
+      try {
+        restored = restorePassword(entry, changedAt, now);
+        await applyVaultUpdate((current) => ({
+          ...current,
+          entries: current.entries.map((existing) =>
+            existing.id === entry.id
+              ? {
+                  ...restorePassword(existing, changedAt, now),
+                  exposure: { status: "pending", sources: [], errors: [], lastChecked: now },
+                }
+              : existing,
+          ),
+        }));
+      } catch (error) {
+        console.error(error);
+        addToast(
+          error instanceof Error ? error.message : "Password could not be restored.",
+          "error",
+        );
+        return;
+      }
+      if (userSettings.leakChecksEnabled) {
+        addToast("Password restored. Breach check running...", "info");
+        await queueLeakCheck(entry.id, restored.password);
+      } else {
+        addToast("Password restored.", "success");
+      }
+    },
+    [addToast, applyVaultUpdate, queueLeakCheck, userSettings.leakChecksEnabled],
+  );
+
+  const handleToggleSelected = useCallback((id: string) => {
+    setSelectedEntryIds((prev) =>
+      prev.includes(id) ? prev.filter((existing) => existing !== id) : [...prev, id],
+    );
+  }, []);
+
+  const handleSelectAllVisible = useCallback(() => {
+    setSelectedEntryIds(visibleEntries.map((entry) => entry.id));
+  }, [visibleEntries]);
+
+  const handleBulkMove = useCallback(async () => {
+    if (selectedIds.length === 0) return;
+    const folder = normalizeFolderPath(bulkAction.folder);
+    try {
+      await applyVaultUpdate((current) => moveEntries(current, selectedIds, bulkAction.folder));
+      addToast(`${selectedIds.length} entries moved to ${folder ?? "Unfiled"}.`, "success");
+      setBulkAction((prev) => ({ ...prev, folder: "" }));
+    } catch (error) {
+      console.error(error);
+      addToast("Entries could not be moved.", "error");
+    }
+  }, [addToast, applyVaultUpdate, bulkAction.folder, selectedIds]);
+
+  const handleBulkTag = useCallback(
+    async (mode: "add" | "remove") => {
+      const [tag] = parseTags(bulkAction.tag);
+      if (selectedIds.length === 0) return;
+      if (!tag) {
+        addToast("Enter a tag first.", "info");
+        return;
+      }
+      try {
+        await applyVaultUpdate((current) =>
+          mode === "add"
+            ? tagEntries(current, selectedIds, tag)
+            : untagEntries(current, selectedIds, tag),
+        );
+        addToast(
+          mode === "add"
+            ? `Tagged ${selectedIds.length} entries with "${tag}".`
+            : `Removed "${tag}" from ${selectedIds.length} entries.`,
+          "success",
+        );
+        setBulkAction((prev) => ({ ...prev, tag: "" }));
+      } catch (error) {
+        console.error(error);
+        addToast("Tags could not be saved.", "error");
+      }
+    },
+    [addToast, applyVaultUpdate, bulkAction.tag, selectedIds],
+  );
+
   const handleDeleteEntry = useCallback(
     async (id: string) => {
-      if (!vaultRef.current || !masterSecretRef.current) return;
+      if (!vaultRef.current || !keyringRef.current) return;
       const ok = window.confirm("Delete this entry?");
       if (!ok) return;
       if (editingEntryId === id) {
@@ -749,13 +1739,25 @@ export default function HomePage() {
         setDraft(initialDraft);
         setDraftError(null);
       }
-      await applyVaultUpdate((current) => ({
-        ...current,
-        entries: current.entries.filter((entry) => entry.id !== id),
-      }));
+      await applyVaultUpdate((current) => deleteVaultEntry(current, id));
+      setSelectedEntryIds((prev) => prev.filter((existing) => existing !== id));
+      await discardUnusedAttachments();
       addToast("Entry deleted.", "info");
     },
-    [addToast, applyVaultUpdate, editingEntryId],
+    [addToast, applyVaultUpdate, discardUnusedAttachments, editingEntryId],
+  );
+
+  const handleResolveConflict = useCallback(
+    async (id: string, choice: "local" | "remote") => {
+      try {
+        await applyVaultUpdate((current) => resolveEntryConflict(current, id, choice));
+        addToast("Conflict resolved.", "success");
+      } catch (error) {
+        console.error(error);
+        addToast("Conflict could not be resolved.", "error");
+      }
+    },
+    [addToast, applyVaultUpdate],
   );
 
   const handleToggleReveal = useCallback(
@@ -811,19 +1813,113 @@ export default function HomePage() {
     [addToast, clipboardClearDelay, userSettings.clipboardAutoClear],
   );
 
+  useEffect(() => {
+    setActiveResultIndex(0);
+  }, [entryQuery, entryFilter]);
+
+  // "/" jumps to the search box unless the user is already typing somewhere.
+  useEffect(() => {
+    if (stage !== "unlocked") return;
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isEditable =
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA" ||
+        target?.tagName === "SELECT";
+      if (event.key === "/" && !isEditable && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        event.preventDefault();
+        searchInputRef.current?.focus();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [stage]);
+
+  const handleSearchKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        if (visibleEntries.length === 0) return;
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        const next = Math.min(Math.max(activeResultIndex + step, 0), visibleEntries.length - 1);
+        setActiveResultIndex(next);
+        entryCardRefs.current.get(visibleEntries[next].id)?.scrollIntoView({ block: "nearest" });
+        return;
+      }
+      if (event.key === "Enter") {
+        event.preventDefault();
+        const entry = visibleEntries[activeResultIndex];
+        if (!entry) return;
+        if (entry.password) {
+          void handleCopyToClipboard(entry.password, `Password for ${entry.label} copied.`);
+        } else if (entry.username) {
+          void handleCopyToClipboard(entry.username, `Username for ${entry.label} copied.`);
+        } else {
+          addToast(`${entry.label} has nothing to copy.`, "info");
+        }
+        registerInteraction();
+        return;
+      }
+      if (event.key === "Escape") {
+        if (entryQuery) {
+          setEntryQuery("");
+        } else {
+          event.currentTarget.blur();
+        }
+      }
+    },
+    [
+      activeResultIndex,
+      addToast,
+      entryQuery,
+      handleCopyToClipboard,
+      registerInteraction,
+      visibleEntries,
+    ],
+  );
+
   const handleRecheckEntry = useCallback(
     async (entry: VaultEntry) => {
-      if (!masterSecretRef.current) return;
+      if (!keyringRef.current) return;
       if (!userSettings.leakChecksEnabled) {
         addToast("Leak checks are disabled in settings.", "info");
         return;
       }
       addToast("Starting leak check...", "info");
-      await queueLeakCheck(entry.id, entry.password);
+      await queueLeakCheck(entry.id, entry.password, { bypassCache: true });
     },
     [addToast, queueLeakCheck, userSettings.leakChecksEnabled],
   );
 
+  const draftTemplate = getEntryTemplate(draft.template);
+  const draftUsesCredentials = draftTemplate.credentials !== "none";
+
+  const renderFilterButton = (filter: EntryFilter, label: string, count: number) => (
+    <button
+      type="button"
+      className={classNames(
+        "vault-browse__item",
+        isSameEntryFilter(filter, entryFilter) && "active",
+      )}
+      onClick={() => setEntryFilter(filter)}
+    >
+      <span>{label}</span>
+      <span className="vault-browse__count">{count}</span>
+    </button>
+  );
+
+  const renderFolderNodes = (nodes: FolderNode[]) => (
+    <ul className="vault-browse__list">
+      {nodes.map((node) => (
+        <li key={node.path}>
+          {renderFilterButton({ kind: "folder", path: node.path }, node.name, node.count)}
+          {node.children.length > 0 && renderFolderNodes(node.children)}
+        </li>
+      ))}
+    </ul>
+  );
+
   const renderUnlockCard = () => (
     <section className="vault-card">
       <header className="vault-card__header">
@@ -833,17 +1929,57 @@ export default function HomePage() {
           monitoring.
         </p>
       </header>
-      <div className="vault-form__group">
-        <label htmlFor="master-password">Master password</label>
-        <input
-          id="master-password"
-          type="password"
-          value={masterInput}
-          autoFocus
-          onChange={(event) => setMasterInput(event.target.value)}
-          placeholder="Master password"
-        />
-      </div>
+      {unlockMode === "recovery" ? (
+        <>
+          <div className="vault-form__group">
+            <label htmlFor="recovery-key">Recovery key</label>
+            <input
+              id="recovery-key"
+              type="text"
+              autoComplete="off"
+              spellCheck={false}
+              value={recoveryInput.key}
+              autoFocus
+              onChange={(event) => handleRecoveryInputChange("key", event.target.value)}
+              placeholder="VLRK-XXXX-XXXX-…"
+            />
+          </div>
+          <div className="vault-form__group">
+            <label htmlFor="recovery-next">New master password</label>
+            <input
+              id="recovery-next"
+              type="password"
+              autoComplete="new-password"
+              value={recoveryInput.next}
+              onChange={(event) => handleRecoveryInputChange("next", event.target.value)}
+              placeholder="At least 12 characters"
+            />
+          </div>
+          <div className="vault-form__group">
+            <label htmlFor="recovery-confirm">Repeat new master password</label>
+            <input
+              id="recovery-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={recoveryInput.confirm}
+              onChange={(event) => handleRecoveryInputChange("confirm", event.target.value)}
+              placeholder="Confirm password"
+            />
+          </div>
+        </>
+      ) : (
+        <div className="vault-form__group">
+          <label htmlFor="master-password">Master password</label>
+          <input
+            id="master-password"
+            type="password"
+            value={masterInput}
+            autoFocus
+            onChange={(event) => setMasterInput(event.target.value)}
+            placeholder="Master password"
+          />
+        </div>
+      )}
       {stage === "creating" && (
         <div className="vault-form__group">
           <label htmlFor="master-password-confirm">Repeat master password</label>
@@ -868,14 +2004,50 @@ export default function HomePage() {
           {formatCountdown(securityState.lockUntil - Date.now())}.
         </p>
       )}
-      <button
-        className="vault-button primary"
-        type="button"
-        onClick={handleUnlock}
-        disabled={isUnlocking}
-      >
-        {stage === "creating" ? "Create vault" : "Unlock vault"}
-      </button>
+      {unlockMode === "recovery" ? (
+        <button
+          className="vault-button primary"
+          type="button"
+          onClick={handleRecoverVault}
+          disabled={isUnlocking}
+        >
+          Recover vault
+        </button>
+      ) : (
+        <button
+          className="vault-button primary"
+          type="button"
+          onClick={handleUnlock}
+          disabled={isUnlocking}
+        >
+          {stage === "creating" ? "Create vault" : "Unlock vault"}
+        </button>
+      )}
+      {hasExistingVault &&
+        stage !== "creating" &&
+        unlockMode === "master" &&
+        passkeySupported &&
+        passkeys.length > 0 && (
+          <button
+            type="button"
+            className="vault-button secondary"
+            onClick={handlePasskeyUnlock}
+            disabled={isUnlocking}
+          >
+            Unlock with passkey
+          </button>
+        )}
+      {hasExistingVault && hasRecoverySlot && stage !== "creating" && (
+        <button
+          type="button"
+          className="vault-button ghost"
+          onClick={handleToggleUnlockMode}
+        >
+          {unlockMode === "recovery"
+            ? "Back to master password"
+            : "Forgot master password? Use recovery key"}
+        </button>
+      )}
       {hasExistingVault && stage !== "creating" && (
         <button
           type="button"
@@ -913,7 +2085,7 @@ export default function HomePage() {
     <main className="vault-app">
       <div className="vault-columns">
         <aside className="vault-sidebar">
-          <div className="vault-card">
+          <div ref={entryFormRef} className="vault-card">
             <header className="vault-card__header">
               <h2>{editingEntryId ? "Edit entry" : "New entry"}</h2>
               <p>
@@ -927,6 +2099,22 @@ export default function HomePage() {
                 Editing · <strong>{draft.label || "Untitled"}</strong>
               </div>
             )}
+            <div className="vault-form__group">
+              <label htmlFor="entry-template">Type</label>
+              <select
+                id="entry-template"
+                value={draft.template}
+                onChange={(event) =>
+                  handleTemplateChange(event.target.value as EntryTemplateId)
+                }
+              >
+                {ENTRY_TEMPLATES.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="vault-form__group">
               <label htmlFor="entry-label">Label</label>
               <input
@@ -949,125 +2137,236 @@ export default function HomePage() {
                 placeholder="example.com"
               />
             </div>
-            <div className="vault-form__group">
-              <label htmlFor="entry-password">Password</label>
-              <div className="vault-input-with-button">
-                <input
-                  id="entry-password"
-                  type="text"
-                  value={draft.password}
-                  onChange={(event) =>
-                    handleDraftChange("password", event.target.value)
-                  }
-                  placeholder="Generated password"
-                />
-                <button
-                  type="button"
-                  className="vault-button secondary"
-                  onClick={handleGeneratePassword}
-                >
-                  Generate
-                </button>
-              </div>
-              {strength && (
-                <div className={classNames("vault-strength", strength.level)}>
-                  <span>{strengthLabel(strength)}</span>
-                  <span>Estimated: {strength.crackTime}</span>
+            {draftUsesCredentials && (
+              <>
+                <div className="vault-form__group">
+                  <label htmlFor="entry-username">{draftTemplate.usernameLabel}</label>
+                  <input
+                    id="entry-username"
+                    type="text"
+                    autoComplete="off"
+                    value={draft.username}
+                    onChange={(event) => handleDraftChange("username", event.target.value)}
+                  />
                 </div>
-              )}
+                <div className="vault-form__group">
+                  <label htmlFor="entry-password">{draftTemplate.passwordLabel}</label>
+                  <div className="vault-input-with-button">
+                    <input
+                      id="entry-password"
+                      type="text"
+                      value={draft.password}
+                      onChange={(event) =>
+                        handleDraftChange("password", event.target.value)
+                      }
+                      placeholder="Generated password"
+                    />
+                    <button
+                      type="button"
+                      className="vault-button secondary"
+                      onClick={handleGeneratePassword}
+                    >
+                      Generate
+                    </button>
+                  </div>
+                  {strength && (
+                    <div className={classNames("vault-strength", strength.level)}>
+                      <span>{strengthLabel(strength)}</span>
+                      <span>Estimated: {strength.crackTime}</span>
+                    </div>
+                  )}
+                </div>
+                <div className="vault-form__group">
+                  <label htmlFor="entry-totp">One-time code (TOTP)</label>
+                  <input
+                    id="entry-totp"
+                    type="text"
+                    autoComplete="off"
+                    spellCheck={false}
+                    value={draft.totp}
+                    onChange={(event) => handleDraftChange("totp", event.target.value)}
+                    placeholder="otpauth://totp/… or base32 secret"
+                  />
+                </div>
+              </>
+            )}
+            <div className="vault-fields">
+              {draft.fields.map((field) => (
+                <div key={field.id} className="vault-fields__row">
+                  <div className="vault-fields__head">
+                    <input
+                      type="text"
+                      aria-label="Field name"
+                      value={field.label}
+                      onChange={(event) =>
+                        handleDraftFieldChange(field.id, { label: event.target.value })
+                      }
+                      placeholder="Field name"
+                    />
+                    <select
+                      aria-label="Field type"
+                      value={field.type}
+                      onChange={(event) =>
+                        handleDraftFieldChange(field.id, {
+                          type: event.target.value as CustomField["type"],
+                        })
+                      }
+                    >
+                      {CUSTOM_FIELD_TYPES.map((option) => (
+                        <option key={option.type} value={option.type}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="vault-button ghost"
+                      aria-label={`Remove ${field.label || "field"}`}
+                      onClick={() => handleRemoveDraftField(field.id)}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <input
+                    type={field.type === "hidden" ? "password" : field.type}
+                    aria-label={field.label || "Field value"}
+                    autoComplete="off"
+                    value={field.value}
+                    onChange={(event) =>
+                      handleDraftFieldChange(field.id, { value: event.target.value })
+                    }
+                  />
+                </div>
+              ))}
+              <button
+                type="button"
+                className="vault-button ghost"
+                onClick={handleAddDraftField}
+              >
+                Add field
+              </button>
             </div>
             <div className="vault-form__group">
-              <label htmlFor="entry-notes">Notes</label>
+              <label htmlFor="entry-notes">
+                {draftTemplate.noteIsContent ? "Note (Markdown)" : "Notes"}
+              </label>
               <textarea
                 id="entry-notes"
                 value={draft.notes}
                 onChange={(event) => handleDraftChange("notes", event.target.value)}
-                placeholder="Security hints, 2FA backups, etc."
-                rows={3}
+                placeholder={
+                  draftTemplate.noteIsContent
+                    ? "# Heading, **bold**, _italic_, `code`, - lists, [links](https://…)"
+                    : "Security hints, 2FA backups, etc."
+                }
+                rows={draftTemplate.noteIsContent ? 10 : 3}
               />
             </div>
-            <div className="vault-generator">
-              <h3>Generator</h3>
-              <div className="vault-generator__grid">
-                <label>
-                  Length
-                  <input
-                    type="number"
-                    min={8}
-                    max={64}
-                    value={passwordOptions.length}
-                    onChange={(event) =>
-                      handlePasswordOptionChange(
-                        "length",
-                        Number.parseInt(event.target.value, 10),
-                      )
-                    }
-                  />
-                </label>
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={passwordOptions.useUppercase}
-                    onChange={(event) =>
-                      handlePasswordOptionChange(
-                        "useUppercase",
-                        event.target.checked,
-                      )
-                    }
-                  />
-                  Uppercase letters
-                </label>
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={passwordOptions.useLowercase}
-                    onChange={(event) =>
-                      handlePasswordOptionChange(
-                        "useLowercase",
-                        event.target.checked,
-                      )
-                    }
-                  />
-                  Lowercase letters
-                </label>
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={passwordOptions.useDigits}
-                    onChange={(event) =>
-                      handlePasswordOptionChange("useDigits", event.target.checked)
-                    }
-                  />
-                  Digits
-                </label>
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={passwordOptions.useSymbols}
-                    onChange={(event) =>
-                      handlePasswordOptionChange(
-                        "useSymbols",
-                        event.target.checked,
-                      )
-                    }
-                  />
-                  Symbols
-                </label>
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={passwordOptions.avoidAmbiguous}
-                    onChange={(event) =>
-                      handlePasswordOptionChange(
-                        "avoidAmbiguous",
-                        event.target.checked,
-                      )
-                    }
-                  />
-                  Avoid ambiguous characters
-                </label>
-              </div>
+            <div className="vault-form__group">
+              <label htmlFor="entry-folder">Folder</label>
+              <input
+                id="entry-folder"
+                type="text"
+                list="vault-folders"
+                value={draft.folder}
+                onChange={(event) => handleDraftChange("folder", event.target.value)}
+                placeholder="e.g. Work/Servers"
+              />
+            </div>
+            <div className="vault-form__group">
+              <label htmlFor="entry-tags">Tags</label>
+              <input
+                id="entry-tags"
+                type="text"
+                value={draft.tags}
+                onChange={(event) => handleDraftChange("tags", event.target.value)}
+                placeholder="Comma-separated, e.g. finance, shared"
+              />
             </div>
+            {draftUsesCredentials && (
+              <div className="vault-generator">
+                <h3>Generator</h3>
+                <div className="vault-generator__grid">
+                  <label>
+                    Length
+                    <input
+                      type="number"
+                      min={8}
+                      max={64}
+                      value={passwordOptions.length}
+                      onChange={(event) =>
+                        handlePasswordOptionChange(
+                          "length",
+                          Number.parseInt(event.target.value, 10),
+                        )
+                      }
+                    />
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={passwordOptions.useUppercase}
+                      onChange={(event) =>
+                        handlePasswordOptionChange(
+                          "useUppercase",
+                          event.target.checked,
+                        )
+                      }
+                    />
+                    Uppercase letters
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={passwordOptions.useLowercase}
+                      onChange={(event) =>
+                        handlePasswordOptionChange(
+                          "useLowercase",
+                          event.target.checked,
+                        )
+                      }
+                    />
+                    Lowercase letters
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={passwordOptions.useDigits}
+                      onChange={(event) =>
+                        handlePasswordOptionChange("useDigits", event.target.checked)
+                      }
+                    />
+                    Digits
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={passwordOptions.useSymbols}
+                      onChange={(event) =>
+                        handlePasswordOptionChange(
+                          "useSymbols",
+                          event.target.checked,
+                        )
+                      }
+                    />
+                    Symbols
+                  </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={passwordOptions.avoidAmbiguous}
+                      onChange={(event) =>
+                        handlePasswordOptionChange(
+                          "avoidAmbiguous",
+                          event.target.checked,
+                        )
+                      }
+                    />
+                    Avoid ambiguous characters
+                  </label>
+                </div>
+              </div>
+            )}
             {draftError && <p className="vault-error">{draftError}</p>}
             <div className="vault-form__actions">
               {editingEntryId && (
@@ -1103,12 +2402,82 @@ export default function HomePage() {
                 </span>
                 <span className="vault-summary__label">Breach warnings</span>
               </div>
+              <div>
+                <span className="vault-summary__value">
+                  {Object.keys(passwordReuse).length}
+                </span>
+                <span className="vault-summary__label">Reused passwords</span>
+              </div>
             </div>
+            <button
+              type="button"
+              className="vault-button secondary"
+              onClick={() => setIsReportOpen((open) => !open)}
+            >
+              {isReportOpen ? "Close security report" : "Security report"}
+            </button>
             <div className="vault-meta">
               <span>Last unlocked: {formatTimestamp(meta?.lastUnlockedAt)}</span>
               <span>Updated: {formatTimestamp(meta?.updatedAt)}</span>
+              {syncEndpoint && (
+                <span>
+                  Sync:{" "}
+                  {syncStatus.state === "syncing"
+                    ? "syncing..."
+                    : syncStatus.state === "error"
+                    ? `failed (${syncStatus.message})`
+                    : formatTimestamp(syncStatus.lastSyncedAt)}
+                </span>
+              )}
             </div>
           </div>
+          <div className="vault-card vault-browse">
+            <h3>Browse</h3>
+            <ul className="vault-browse__list">
+              <li>{renderFilterButton({ kind: "all" }, "All entries", vault.entries.length)}</li>
+              <li>
+                {renderFilterButton(
+                  { kind: "favorites" },
+                  "Favourites",
+                  vault.entries.filter((entry) => entry.favorite).length,
+                )}
+              </li>
+              <li>
+                {renderFilterButton(
+                  { kind: "unfiled" },
+                  "Unfiled",
+                  vault.entries.filter((entry) => !entry.folder).length,
+                )}
+              </li>
+            </ul>
+            {folderTree.length > 0 && (
+              <>
+                <h4>Folders</h4>
+                {renderFolderNodes(folderTree)}
+              </>
+            )}
+            {tagSummaries.length > 0 && (
+              <>
+                <h4>Tags</h4>
+                <div className="vault-browse__tags">
+                  {tagSummaries.map((summary) => (
+                    <button
+                      key={summary.tag}
+                      type="button"
+                      className={classNames(
+                        "source-chip",
+                        isSameEntryFilter({ kind: "tag", tag: summary.tag }, entryFilter) &&
+                          "active",
+                      )}
+                      onClick={() => setEntryFilter({ kind: "tag", tag: summary.tag })}
+                    >
+                      #{summary.tag} · {summary.count}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
           <div className="vault-card vault-security">
             <h3>Master password</h3>
             <p>Rotate your master password regularly for maximum security.</p>
@@ -1151,6 +2520,253 @@ export default function HomePage() {
               Auto-lock enabled: after {autoLockMinutes} {autoLockMinutes === 1 ? "minute" : "minutes"} of inactivity the vault locks automatically.
             </p>
           </div>
+          <div className="vault-card vault-security">
+            <h3>Recovery kit</h3>
+            <p>
+              {hasRecoverySlot
+                ? "A recovery key can unlock this vault if you forget the master password."
+                : "Create a recovery key so a forgotten master password does not mean losing the vault."}
+            </p>
+            {pendingRecoveryKey ? (
+              <>
+                <p className="vault-warning">
+                  Store this key offline now. It is shown only once.
+                </p>
+                <code className="vault-recovery-key">{pendingRecoveryKey}</code>
+                <div className="vault-form__actions">
+                  <button
+                    type="button"
+                    className="vault-button secondary"
+                    onClick={() => handleExportEmergencyKit("download")}
+                  >
+                    Download kit
+                  </button>
+                  <button
+                    type="button"
+                    className="vault-button secondary"
+                    onClick={() => handleExportEmergencyKit("print")}
+                  >
+                    Print
+                  </button>
+                  <button
+                    type="button"
+                    className="vault-button ghost"
+                    onClick={() => setPendingRecoveryKey(null)}
+                  >
+                    Done
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="vault-form__actions">
+                <button
+                  type="button"
+                  className="vault-button secondary"
+                  onClick={handleGenerateRecoveryKey}
+                >
+                  {hasRecoverySlot ? "Replace recovery key" : "Create recovery key"}
+                </button>
+              </div>
+            )}
+          </div>
+          <PasskeyCard
+            passkeys={passkeys}
+            supported={passkeySupported}
+            isEnrolling={isEnrollingPasskey}
+            onEnroll={handleEnrollPasskey}
+            onRemove={handleRemovePasskey}
+          />
+          <div className="vault-card vault-security">
+            <h3>Backup &amp; transfer</h3>
+            <p>
+              Export the encrypted vault as a <code>{VAULT_EXPORT_EXTENSION}</code> file or restore
+              one. Backups stay encrypted with the master password they were created with.
+            </p>
+            <div className="vault-form__actions">
+              <button
+                type="button"
+                className="vault-button secondary"
+                onClick={handleExportVault}
+              >
+                Export backup
+              </button>
+            </div>
+            <div className="vault-form__group">
+              <label htmlFor="import-file">Import backup</label>
+              <input
+                id="import-file"
+                ref={importInputRef}
+                type="file"
+                accept={`${VAULT_EXPORT_EXTENSION},application/json`}
+                onChange={handleImportFileChange}
+              />
+            </div>
+            {importFile && (
+              <>
+                <span className="vault-security__hint">
+                  Exported {formatTimestamp(importFile.exportedAt)} · envelope v
+                  {importFile.vault.version}
+                </span>
+                <div className="vault-form__group">
+                  <label htmlFor="import-password">Backup master password</label>
+                  <input
+                    id="import-password"
+                    type="password"
+                    autoComplete="off"
+                    value={importPassword}
+                    onChange={(event) => setImportPassword(event.target.value)}
+                    placeholder="Master password of the backup"
+                  />
+                </div>
+                <div className="vault-form__actions">
+                  <button
+                    type="button"
+                    className="vault-button secondary"
+                    disabled={isImporting}
+                    onClick={() => handleImportVault("merge")}
+                  >
+                    Merge
+                  </button>
+                  <button
+                    type="button"
+                    className="vault-button danger"
+                    disabled={isImporting}
+                    onClick={() => handleImportVault("replace")}
+                  >
+                    Replace
+                  </button>
+                </div>
+              </>
+            )}
+            {importError && <p className="vault-error">{importError}</p>}
+          </div>
+          <div className="vault-card vault-security">
+            <h3>Snapshots</h3>
+            <p>
+              The last {SNAPSHOT_LIMIT} saved versions of the encrypted vault are kept for 30 days
+              so a bad save can be rolled back.
+            </p>
+            {snapshots.length === 0 ? (
+              <span className="vault-security__hint">No snapshots yet.</span>
+            ) : (
+              <>
+                <div className="vault-form__group">
+                  <label htmlFor="snapshot-password">Master password</label>
+                  <input
+                    id="snapshot-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={snapshotPassword}
+                    onChange={(event) => {
+                      setSnapshotPassword(event.target.value);
+                      setSnapshotError(null);
+                    }}
+                    placeholder="Required to restore"
+                  />
+                </div>
+                <ul className="vault-snapshots">
+                  {snapshots.map((snapshot) => (
+                    <li key={snapshot.id}>
+                      <span>{formatTimestamp(snapshot.createdAt)}</span>
+                      <button
+                        type="button"
+                        className="vault-button ghost"
+                        disabled={restoringSnapshotId !== null || !snapshotPassword}
+                        onClick={() => handleRestoreSnapshot(snapshot)}
+                      >
+                        {restoringSnapshotId === snapshot.id ? "Restoring..." : "Restore"}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {snapshotError && <p className="vault-error">{snapshotError}</p>}
+          </div>
+          <div className="vault-card vault-security">
+            <h3>Import from another manager</h3>
+            <p>
+              Bring in a CSV or JSON export from Bitwarden, 1Password, LastPass, KeePass or Chrome.
+              You can review every entry before it is added.
+            </p>
+            <div className="vault-form__group">
+              <label htmlFor="credential-import-file">Export file</label>
+              <input
+                id="credential-import-file"
+                ref={credentialImportInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleCredentialFileChange}
+              />
+            </div>
+            {credentialImportError && <p className="vault-error">{credentialImportError}</p>}
+            <p className="vault-security__hint">
+              Delete the plaintext export file once the import is done.
+            </p>
+          </div>
+          <div className="vault-card vault-security">
+            <h3>Plaintext export</h3>
+            <p className="vault-warning">
+              Writes every password unencrypted to a Bitwarden-compatible file. Only use it to
+              migrate out or for an audit, and delete the file afterwards.
+            </p>
+            <div className="vault-form__group">
+              <label htmlFor="plaintext-format">Format</label>
+              <select
+                id="plaintext-format"
+                value={plaintextExport.format}
+                onChange={(event) =>
+                  setPlaintextExport((prev) => ({
+                    ...prev,
+                    format: event.target.value as PlaintextExportFormat,
+                  }))
+                }
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+            <div className="vault-form__group">
+              <label htmlFor="plaintext-password">Master password</label>
+              <input
+                id="plaintext-password"
+                type="password"
+                autoComplete="current-password"
+                value={plaintextExport.password}
+                onChange={(event) => {
+                  setPlaintextExport((prev) => ({ ...prev, password: event.target.value }));
+                  setPlaintextExportError(null);
+                }}
+                placeholder="Re-enter to confirm"
+              />
+            </div>
+            {userSettings.paranoidMode && (
+              <label className="vault-checkbox">
+                <input
+                  type="checkbox"
+                  checked={plaintextExport.override}
+                  onChange={(event) =>
+                    setPlaintextExport((prev) => ({ ...prev, override: event.target.checked }))
+                  }
+                />
+                Paranoid mode is on. Export anyway.
+              </label>
+            )}
+            {plaintextExportError && <p className="vault-error">{plaintextExportError}</p>}
+            <div className="vault-form__actions">
+              <button
+                type="button"
+                className="vault-button danger"
+                disabled={
+                  !plaintextExport.password ||
+                  (userSettings.paranoidMode && !plaintextExport.override)
+                }
+                onClick={handlePlaintextExport}
+              >
+                Export plaintext
+              </button>
+            </div>
+          </div>
         </aside>
         <section className="vault-content">
           <header className="vault-content__header">
@@ -1158,6 +2774,31 @@ export default function HomePage() {
               <h1>My credentials</h1>
               <p>All data is stored locally in encrypted form only.</p>
             </div>
+            <input
+              ref={searchInputRef}
+              type="search"
+              className="vault-search"
+              value={entryQuery}
+              onChange={(event) => setEntryQuery(event.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              onFocus={() => setIsSearchFocused(true)}
+              onBlur={() => setIsSearchFocused(false)}
+              placeholder="Search (press /)"
+              title="↑/↓ moves through the results, Enter copies the password, Esc clears."
+              aria-label="Search entries and notes"
+            />
+            <input
+              ref={attachmentInputRef}
+              type="file"
+              multiple
+              hidden
+              onChange={handleAttachmentFileChange}
+            />
+            <datalist id="vault-folders">
+              {folderPaths.map((path) => (
+                <option key={path} value={path} />
+              ))}
+            </datalist>
             <button
               type="button"
               className="vault-button subtle"
@@ -1166,27 +2807,193 @@ export default function HomePage() {
               Lock
             </button>
           </header>
+          {vault.conflicts && vault.conflicts.length > 0 && (
+            <SyncConflicts conflicts={vault.conflicts} onResolve={handleResolveConflict} />
+          )}
+          {isReportOpen && (
+            <SecurityReport
+              entries={vault.entries}
+              maxAgeDays={userSettings.passwordMaxAgeDays}
+              editingEntryId={editingEntryId}
+              onFix={handleFixEntry}
+            />
+          )}
+          {credentialImport && (
+            <div className="vault-card vault-import">
+              <header className="vault-import__header">
+                <div>
+                  <h2>Import preview</h2>
+                  <p>
+                    {IMPORT_SOURCE_LABELS[credentialImport.source]} ·{" "}
+                    {credentialImport.items.length} logins
+                    {credentialImport.skipped > 0
+                      ? ` · ${credentialImport.skipped} skipped (not logins)`
+                      : ""}
+                  </p>
+                </div>
+                <div className="vault-form__actions">
+                  <button
+                    type="button"
+                    className="vault-button primary"
+                    disabled={isImporting || selectedImportKeys.length === 0}
+                    onClick={handleImportCredentials}
+                  >
+                    Import {selectedImportKeys.length} selected
+                  </button>
+                  <button
+                    type="button"
+                    className="vault-button ghost"
+                    disabled={isImporting}
+                    onClick={resetCredentialImport}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </header>
+              <ul className="vault-import__list">
+                {credentialImport.items.map((item) => (
+                  <li key={item.key} className="vault-import__item">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={selectedImportKeys.includes(item.key)}
+                        onChange={() => handleToggleImportItem(item.key)}
+                      />
+                      <span className="vault-import__label">{item.credential.label}</span>
+                      <span className="vault-import__meta">
+                        {item.credential.username || "—"}
+                        {item.domain ? ` · ${item.domain}` : ""}
+                      </span>
+                    </label>
+                    {item.duplicate && (
+                      <span className="vault-badge warning">
+                        {item.duplicate.kind === "exact" ? "Duplicate" : "Same login exists"}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {selectedIds.length > 0 && (
+            <div className="vault-card vault-bulk">
+              <div className="vault-bulk__summary">
+                <strong>{selectedIds.length} selected</strong>
+                <button
+                  type="button"
+                  className="vault-button ghost"
+                  onClick={handleSelectAllVisible}
+                >
+                  Select all shown
+                </button>
+                <button
+                  type="button"
+                  className="vault-button ghost"
+                  onClick={() => setSelectedEntryIds([])}
+                >
+                  Clear selection
+                </button>
+              </div>
+              <div className="vault-bulk__actions">
+                <input
+                  type="text"
+                  list="vault-folders"
+                  value={bulkAction.folder}
+                  onChange={(event) =>
+                    setBulkAction((prev) => ({ ...prev, folder: event.target.value }))
+                  }
+                  placeholder="Folder (empty = unfiled)"
+                  aria-label="Target folder"
+                />
+                <button type="button" className="vault-button secondary" onClick={handleBulkMove}>
+                  Move
+                </button>
+              </div>
+              <div className="vault-bulk__actions">
+                <input
+                  type="text"
+                  value={bulkAction.tag}
+                  onChange={(event) =>
+                    setBulkAction((prev) => ({ ...prev, tag: event.target.value }))
+                  }
+                  placeholder="Tag"
+                  aria-label="Tag"
+                />
+                <button
+                  type="button"
+                  className="vault-button secondary"
+                  onClick={() => handleBulkTag("add")}
+                >
+                  Add tag
+                </button>
+                <button
+                  type="button"
+                  className="vault-button ghost"
+                  onClick={() => handleBulkTag("remove")}
+                >
+                  Remove tag
+                </button>
+              </div>
+            </div>
+          )}
           {sortedEntries.length === 0 ? (
             <div className="vault-empty">
               <h2>No entries yet</h2>
               <p>Create your first entry. Every credential is checked against multiple leak databases immediately.</p>
             </div>
+          ) : visibleEntries.length === 0 ? (
+            <div className="vault-empty">
+              <h2>No matches</h2>
+              <p>
+                {entryQuery.trim()
+                  ? `No entry or note in this view contains “${entryQuery.trim()}”.`
+                  : "No entries in this view."}
+              </p>
+            </div>
           ) : (
             <div className="vault-entries">
-              {sortedEntries.map((entry) => {
+              {visibleEntries.map((entry, index) => {
                 const revealed = revealedEntries.includes(entry.id);
                 const exposure = entry.exposure;
+                const template = getEntryTemplate(entry.template);
                 return (
                   <article
                     key={entry.id}
+                    ref={(element) => {
+                      if (element) {
+                        entryCardRefs.current.set(entry.id, element);
+                      } else {
+                        entryCardRefs.current.delete(entry.id);
+                      }
+                    }}
                     className={classNames(
                       "vault-entry",
                       editingEntryId === entry.id && "editing",
+                      isSearchFocused && index === activeResultIndex && "active",
                     )}
                   >
                     <header className="vault-entry__header">
                       <div>
-                        <h3>{entry.label}</h3>
+                        <div className="vault-entry__title">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(entry.id)}
+                            onChange={() => handleToggleSelected(entry.id)}
+                            aria-label={`Select ${entry.label}`}
+                          />
+                          <h3>{entry.label}</h3>
+                          <button
+                            type="button"
+                            className={classNames("vault-favorite", entry.favorite && "active")}
+                            aria-pressed={Boolean(entry.favorite)}
+                            aria-label={
+                              entry.favorite ? "Remove from favourites" : "Add to favourites"
+                            }
+                            onClick={() => handleToggleFavorite(entry)}
+                          >
+                            {entry.favorite ? "★" : "☆"}
+                          </button>
+                        </div>
                         {entry.domain || entry.url ? (
                           <span className="vault-entry__url">
                             {entry.domain ?? extractDisplayUrl(entry.url)}
@@ -1195,92 +3002,269 @@ export default function HomePage() {
                         <span className="vault-entry__timestamp">
                           Updated: {formatTimestamp(entry.updatedAt)}
                         </span>
+                        {entry.folder || entry.tags?.length ? (
+                          <div className="vault-entry__organization">
+                            {entry.folder && (
+                              <button
+                                type="button"
+                                className="vault-entry__folder"
+                                onClick={() =>
+                                  setEntryFilter({ kind: "folder", path: entry.folder ?? "" })
+                                }
+                              >
+                                {entry.folder.split("/").join(" › ")}
+                              </button>
+                            )}
+                            {entry.tags?.map((tag) => (
+                              <button
+                                key={tag}
+                                type="button"
+                                className="source-chip"
+                                onClick={() => setEntryFilter({ kind: "tag", tag })}
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+                        ) : null}
                       </div>
-                      <span
-                        className={classNames(
-                          "vault-badge",
-                          exposure?.status ?? "pending",
-                        )}
-                      >
-                        {exposureStatusLabel(exposure?.status ?? "pending")}
-                      </span>
+                      {entry.password ? (
+                        <span
+                          className={classNames(
+                            "vault-badge",
+                            exposure?.status ?? "pending",
+                          )}
+                        >
+                          {exposureStatusLabel(exposure?.status ?? "pending")}
+                        </span>
+                      ) : (
+                        <span className="vault-badge">{template.label}</span>
+                      )}
                     </header>
                     <div className="vault-entry__body">
-                      <div className="vault-entry__row">
-                        <span className="label">Username</span>
-                        <div className="value">
-                          <span>{entry.username || "—"}</span>
-                          {entry.username && (
-                            <button
-                              type="button"
-                              className="vault-button ghost"
-                              onClick={() =>
-                                handleCopyToClipboard(entry.username, "Username copied.")
-                              }
-                            >
-                              Copy
-                            </button>
-                          )}
+                      {template.credentials !== "none" && (
+                        <div className="vault-entry__row">
+                          <span className="label">{template.usernameLabel}</span>
+                          <div className="value">
+                            <span>{entry.username || "—"}</span>
+                            {entry.username && (
+                              <button
+                                type="button"
+                                className="vault-button ghost"
+                                onClick={() =>
+                                  handleCopyToClipboard(entry.username, "Username copied.")
+                                }
+                              >
+                                Copy
+                              </button>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                      <div className="vault-entry__row">
-                        <span className="label">Password</span>
-                        <div className="value">
-                          <span className="vault-entry__password">
-                            {revealed ? entry.password : "•••••••••"}
-                          </span>
-                          <div className="vault-entry__actions">
-                            <button
-                              type="button"
-                              className="vault-button ghost"
-                              onClick={() => handleToggleReveal(entry.id)}
-                            >
-                              {revealed ? "Hide" : "Reveal"}
-                            </button>
-                            <button
-                              type="button"
-                              className="vault-button ghost"
-                              onClick={() =>
-                                handleCopyToClipboard(entry.password, "Password copied.")
-                              }
-                            >
-                              Copy
-                            </button>
+                      )}
+                      {entry.password && (
+                        <div className="vault-entry__row">
+                          <span className="label">{template.passwordLabel}</span>
+                          <div className="value">
+                            <span className="vault-entry__password">
+                              {revealed ? entry.password : "•••••••••"}
+                            </span>
+                            <div className="vault-entry__actions">
+                              <button
+                                type="button"
+                                className="vault-button ghost"
+                                onClick={() => handleToggleReveal(entry.id)}
+                              >
+                                {revealed ? "Hide" : "Reveal"}
+                              </button>
+                              <button
+                                type="button"
+                                className="vault-button ghost"
+                                onClick={() =>
+                                  handleCopyToClipboard(entry.password, "Password copied.")
+                                }
+                              >
+                                Copy
+                              </button>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                      {entry.notes && (
+                      )}
+                      {passwordReuse[entry.id] && (
+                        <p className="vault-entry__warning">
+                          Password reused by{" "}
+                          {passwordReuse[entry.id]
+                            .map((reuse) =>
+                              reuse.previous ? `${reuse.label} (previous password)` : reuse.label,
+                            )
+                            .join(", ")}
+                          .
+                        </p>
+                      )}
+                      {entry.passwordHistory?.length ? (
+                        <details className="vault-entry__history">
+                          <summary>Password history ({entry.passwordHistory.length})</summary>
+                          <ul>
+                            {entry.passwordHistory.map((item) => {
+                              const historyKey = `${entry.id}:history:${item.changedAt}`;
+                              const historyRevealed = revealedEntries.includes(historyKey);
+                              return (
+                                <li key={item.changedAt}>
+                                  <span className="vault-entry__password">
+                                    {historyRevealed ? item.password : "•••••••••"}
+                                  </span>
+                                  <span className="vault-entry__timestamp">
+                                    Replaced: {formatTimestamp(item.changedAt)}
+                                  </span>
+                                  <div className="vault-entry__actions">
+                                    <button
+                                      type="button"
+                                      className="vault-button ghost"
+                                      onClick={() => handleToggleReveal(historyKey)}
+                                    >
+                                      {historyRevealed ? "Hide" : "Reveal"}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className="vault-button ghost"
+                                      onClick={() =>
+                                        handleCopyToClipboard(item.password, "Password copied.")
+                                      }
+                                    >
+                                      Copy
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className="vault-button ghost"
+                                      onClick={() => handleRestorePassword(entry, item.changedAt)}
+                                    >
+                                      Restore
+                                    </button>
+                                  </div>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </details>
+                      ) : null}
+                      {entry.totp && (
+                        <TotpCodeRow
+                          totp={entry.totp}
+                          onCopy={(code) => handleCopyToClipboard(code, "One-time code copied.")}
+                        />
+                      )}
+                      {entry.fields?.map((field) => {
+                        const fieldKey = `${entry.id}:${field.id}`;
+                        const masked =
+                          field.type === "hidden" && !revealedEntries.includes(fieldKey);
+                        const href = field.type === "url" ? customFieldHref(field.value) : null;
+                        return (
+                          <div key={field.id} className="vault-entry__row">
+                            <span className="label">{field.label}</span>
+                            <div className="value">
+                              {masked ? (
+                                <span className="vault-entry__password">•••••••••</span>
+                              ) : href ? (
+                                <a
+                                  className="vault-entry__link"
+                                  href={href}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                >
+                                  {extractDisplayUrl(field.value)}
+                                </a>
+                              ) : (
+                                <span className="vault-entry__field">{field.value}</span>
+                              )}
+                              <div className="vault-entry__actions">
+                                {field.type === "hidden" && (
+                                  <button
+                                    type="button"
+                                    className="vault-button ghost"
+                                    onClick={() => handleToggleReveal(fieldKey)}
+                                  >
+                                    {masked ? "Reveal" : "Hide"}
+                                  </button>
+                                )}
+                                <button
+                                  type="button"
+                                  className="vault-button ghost"
+                                  onClick={() =>
+                                    handleCopyToClipboard(field.value, `${field.label} copied.`)
+                                  }
+                                >
+                                  Copy
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                      {entry.notes && template.noteIsContent && (
+                        <div className="vault-entry__markdown">
+                          {renderMarkdownBlocks(parseMarkdown(entry.notes))}
+                        </div>
+                      )}
+                      {entry.notes && !template.noteIsContent && (
                         <div className="vault-entry__row">
                           <span className="label">Notes</span>
                           <div className="value notes">{entry.notes}</div>
                         </div>
                       )}
+                      {entry.attachments?.length ? (
+                        <AttachmentList
+                          attachments={entry.attachments}
+                          onPreview={(attachment) => handlePreviewAttachment(entry.id, attachment)}
+                          onDownload={handleDownloadAttachment}
+                          onRemove={(attachment) => handleRemoveAttachment(entry.id, attachment)}
+                        />
+                      ) : null}
+                      {attachmentPreview?.entryId === entry.id && (
+                        <AttachmentPreviewPanel
+                          preview={attachmentPreview}
+                          onClose={closeAttachmentPreview}
+                        />
+                      )}
                     </div>
                     <footer className="vault-entry__footer">
-                      <div className="vault-exposure">
-                        <span>Last checked: {formatTimestamp(exposure?.lastChecked)}</span>
-                        <div className="vault-exposure__sources">
-                          {exposure?.sources?.length ? (
-                            exposure.sources.map((source) => (
-                              <span key={source.provider} className="source-chip">
-                                {source.provider} · {source.matches} matches
-                              </span>
-                            ))
-                          ) : (
-                            <span className="source-chip muted">No matches recorded.</span>
-                          )}
+                      {entry.password && (
+                        <div className="vault-exposure">
+                          <span>Last checked: {formatTimestamp(exposure?.lastChecked)}</span>
+                          <div className="vault-exposure__sources">
+                            {exposure?.sources?.length ? (
+                              exposure.sources.map((source) => (
+                                <span key={source.provider} className="source-chip">
+                                  {source.provider} · {source.matches} matches
+                                </span>
+                              ))
+                            ) : (
+                              <span className="source-chip muted">No matches recorded.</span>
+                            )}
+                          </div>
+                          {exposure?.errors?.length ? (
+                            <details className="vault-exposure__errors">
+                              <summary>Error details</summary>
+                              <ul>
+                                {exposure.errors.map((error, index) => (
+                                  <li key={index}>{error}</li>
+                                ))}
+                              </ul>
+                            </details>
+                          ) : null}
+                          {exposure?.providers?.length ? (
+                            <details className="vault-exposure__providers">
+                              <summary>Providers</summary>
+                              <ul>
+                                {exposure.providers.map((result) => (
+                                  <li key={result.provider}>
+                                    {result.provider} · {providerStatusLabels[result.status]} ·{" "}
+                                    {result.durationMs} ms
+                                  </li>
+                                ))}
+                              </ul>
+                            </details>
+                          ) : null}
                         </div>
-                        {exposure?.errors?.length ? (
-                          <details className="vault-exposure__errors">
-                            <summary>Error details</summary>
-                            <ul>
-                              {exposure.errors.map((error, index) => (
-                                <li key={index}>{error}</li>
-                              ))}
-                            </ul>
-                          </details>
-                        ) : null}
-                      </div>
+                      )}
                       <div className="vault-entry__footer-actions">
                         <button
                           type="button"
@@ -1293,11 +3277,19 @@ export default function HomePage() {
                         <button
                           type="button"
                           className="vault-button secondary"
-                          disabled={isChecking(entry.id)}
+                          disabled={!entry.password || isChecking(entry.id)}
                           onClick={() => handleRecheckEntry(entry)}
                         >
                           {isChecking(entry.id) ? "Checking..." : "Leak-Check"}
                         </button>
+                        <button
+                          type="button"
+                          className="vault-button ghost"
+                          disabled={attachingEntryId === entry.id}
+                          onClick={() => handleAttachClick(entry.id)}
+                        >
+                          {attachingEntryId === entry.id ? "Encrypting..." : "Attach file"}
+                        </button>
                         <button
                           type="button"
                           className="vault-button danger"
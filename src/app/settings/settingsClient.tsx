@@ -9,6 +9,7 @@ import {
   saveSettings,
   type UserSettings,
 } from "../../core/settings/userSettings";
+import type { KdfAlgorithm } from "../../core/crypto/cryptoClient";
 
 export default function SettingsClient() {
   const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
@@ -114,6 +115,41 @@ export default function SettingsClient() {
                 </span>
               </div>
             </div>
+            <div className="settings__control">
+              <label htmlFor="vault-kdf">Key derivation</label>
+              <select
+                id="vault-kdf"
+                className="settings__select"
+                value={settings.vaultKdf}
+                onChange={(event) => handleUpdate("vaultKdf", event.target.value as KdfAlgorithm)}
+                disabled={!loaded}
+              >
+                <option value="Argon2id">Argon2id (memory-hard, recommended)</option>
+                <option value="PBKDF2">PBKDF2-SHA256 (600k iterations)</option>
+              </select>
+              <span className="settings__hint">
+                Applied the next time you unlock with the master password. Existing vaults keep
+                opening with the algorithm they were written with.
+              </span>
+            </div>
+            <div className="settings__control">
+              <label htmlFor="password-max-age">Maximum password age</label>
+              <select
+                id="password-max-age"
+                className="settings__select"
+                value={settings.passwordMaxAgeDays}
+                onChange={(event) => handleUpdate("passwordMaxAgeDays", Number(event.target.value))}
+                disabled={!loaded}
+              >
+                <option value={90}>90 days</option>
+                <option value={180}>180 days</option>
+                <option value={365}>1 year</option>
+                <option value={730}>2 years</option>
+              </select>
+              <span className="settings__hint">
+                The security report lists passwords that have not been changed for longer.
+              </span>
+            </div>
             <div className="settings__checkbox">
               <input
                 id="clipboard-auto-clear"
@@ -168,6 +204,87 @@ export default function SettingsClient() {
           </div>
         </article>
 
+        <article className="settings__card">
+          <header className="settings__group">
+            <h2>Sync</h2>
+            <p>
+              Keep several devices in step through a Vaultlight server you host. The server only
+              ever stores the encrypted vault.
+            </p>
+          </header>
+          <div className="settings__group">
+            <div className="settings__checkbox">
+              <input
+                id="sync-enabled"
+                type="checkbox"
+                checked={settings.syncEnabled}
+                onChange={handleToggle("syncEnabled")}
+                disabled={!loaded}
+              />
+              <div>
+                <label htmlFor="sync-enabled">
+                  <strong>Sync this vault</strong>
+                </label>
+                <span>Pull on unlock and push after every save.</span>
+              </div>
+            </div>
+            <div className="settings__control">
+              <label htmlFor="sync-server">Server URL</label>
+              <input
+                id="sync-server"
+                className="settings__input"
+                type="url"
+                value={settings.syncServerUrl}
+                onChange={(event) => handleUpdate("syncServerUrl", event.target.value)}
+                placeholder="Leave empty to use this server"
+                disabled={!loaded}
+              />
+              <span className="settings__hint">
+                A server on another origin must list this app&apos;s origin in
+                VAULTLIGHT_SYNC_ALLOWED_ORIGINS.
+              </span>
+            </div>
+            <div className="settings__control">
+              <label htmlFor="sync-vault-id">Vault ID</label>
+              <div className="settings__inline">
+                <input
+                  id="sync-vault-id"
+                  className="settings__input"
+                  value={settings.syncVaultId}
+                  onChange={(event) => handleUpdate("syncVaultId", event.target.value.trim().toLowerCase())}
+                  placeholder="Shared by all devices of this vault"
+                  disabled={!loaded}
+                />
+                <button
+                  type="button"
+                  className="settings__secondary"
+                  onClick={() => handleUpdate("syncVaultId", crypto.randomUUID())}
+                  disabled={!loaded}
+                >
+                  Generate
+                </button>
+              </div>
+              <span className="settings__hint">
+                Generate it on the first device and copy it to the others. Devices joining an
+                existing vault unlock with its master password.
+              </span>
+            </div>
+            <div className="settings__control">
+              <label htmlFor="sync-token">Access token</label>
+              <input
+                id="sync-token"
+                className="settings__input"
+                type="password"
+                autoComplete="off"
+                value={settings.syncToken}
+                onChange={(event) => handleUpdate("syncToken", event.target.value)}
+                placeholder="VAULTLIGHT_SYNC_TOKEN of the server"
+                disabled={!loaded}
+              />
+            </div>
+          </div>
+        </article>
+
         <article className="settings__card">
           <header className="settings__group">
             <h2>Password generator defaults</h2>
@@ -273,8 +390,8 @@ export default function SettingsClient() {
         <h2>Security-first roadmap</h2>
         <p>
           These preferences stay encrypted in your browser and sync to the extension when it is
-          connected. Cloud sync and recovery exports are being designed with the same zero-knowledge
-          principles.
+          connected. Self-hosted vault sync follows the same zero-knowledge principles: the server
+          only stores ciphertext.
         </p>
         <p>
           Have questions or want to influence the roadmap? Open a discussion on{" "}
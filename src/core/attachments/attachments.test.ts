@@ -0,0 +1,57 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createVaultKeyring, type VaultKeyring, type VaultPayload } from "../crypto/cryptoClient";
+import { initializeVaultEntry, persistVault } from "../storage/vaultManager";
+import { clearStoredVault, loadAttachmentIds } from "../storage/vaultStorage";
+import { addAttachment, pruneAttachments } from "./attachments";
+
+describe("pruneAttachments", () => {
+  let keyring: VaultKeyring;
+
+  beforeAll(async () => {
+    const records = new Map<string, string>();
+    vi.stubGlobal("window", {
+      crypto: globalThis.crypto,
+      localStorage: {
+        getItem: (key: string) => records.get(key) ?? null,
+        setItem: (key: string, value: string) => records.set(key, value),
+        removeItem: (key: string) => records.delete(key),
+      },
+    });
+    keyring = await createVaultKeyring("correct horse battery staple", {
+      algorithm: "PBKDF2",
+      hash: "SHA-256",
+      iterations: 1_000,
+    });
+  });
+
+  beforeEach(async () => {
+    await clearStoredVault();
+  });
+
+  it("keeps files of a deleted entry while a snapshot still refers to them", async () => {
+    const entry = initializeVaultEntry({ label: "Bank", username: "alice", password: "hunter2" });
+    const ref = await addAttachment(entry, new File(["recovery codes"], "codes.txt"));
+    const withFile: VaultPayload = {
+      version: 2,
+      entries: [{ ...entry, attachments: [ref] }],
+    };
+    await persistVault(keyring, withFile);
+    const emptied: VaultPayload = { version: 2, entries: [] };
+    await persistVault(keyring, emptied);
+
+    await pruneAttachments(keyring, emptied);
+
+    expect(await loadAttachmentIds()).toEqual([ref.id]);
+  });
+
+  it("removes files that neither the vault nor a snapshot refers to", async () => {
+    const entry = initializeVaultEntry({ label: "Bank", username: "alice", password: "hunter2" });
+    await addAttachment(entry, new File(["never saved"], "draft.txt"));
+    const payload: VaultPayload = { version: 2, entries: [entry] };
+    await persistVault(keyring, payload);
+
+    await pruneAttachments(keyring, payload);
+
+    expect(await loadAttachmentIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  decryptAttachment,
+  decryptPayload,
+  encryptAttachment,
+  type AttachmentRef,
+  type VaultEntry,
+  type VaultKeyring,
+  type VaultPayload,
+} from "../crypto/cryptoClient";
+import type { StorageBackend } from "../storage/storageAdapter";
+import {
+  getStorageBackend,
+  loadAttachment,
+  loadAttachmentIds,
+  loadSyncState,
+  loadVaultSnapshots,
+  removeAttachments,
+  saveAttachment,
+} from "../storage/vaultStorage";
+
+const MiB = 1024 * 1024;
+
+// localStorage shares a ~5 MB quota with the vault itself and stores base64, so it gets far less room.
+export const ATTACHMENT_LIMITS: Record<StorageBackend, { fileBytes: number; entryBytes: number }> = {
+  indexeddb: { fileBytes: 10 * MiB, entryBytes: 25 * MiB },
+  localstorage: { fileBytes: MiB / 2, entryBytes: MiB },
+};
+
+export type AttachmentPreviewKind = "image" | "pdf" | "text";
+
+// SVG is left out on purpose: opened on its own it can run scripts.
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const TEXT_EXTENSIONS = /\.(txt|md|csv|log|pem|pub|key|crt|cer|asc|conf|ini|json)$/i;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < MiB) {
+    return `${Number((bytes / 1024).toFixed(1))} KB`;
+  }
+  return `${Number((bytes / MiB).toFixed(1))} MB`;
+}
+
+export function attachmentPreviewKind(ref: AttachmentRef): AttachmentPreviewKind | null {
+  if (IMAGE_TYPES.includes(ref.mimeType)) {
+    return "image";
+  }
+  if (ref.mimeType === "application/pdf") {
+    return "pdf";
+  }
+  if (ref.mimeType.startsWith("text/") || TEXT_EXTENSIONS.test(ref.name)) {
+    return "text";
+  }
+  return null;
+}
+
+/** Encrypts `file`, stores it and returns the ref to add to the entry. Throws when a limit is exceeded. */
+export async function addAttachment(entry: VaultEntry, file: File): Promise<AttachmentRef> {
+  const limits = ATTACHMENT_LIMITS[(await getStorageBackend()) ?? "localstorage"];
+  if (file.size > limits.fileBytes) {
+    throw new Error(`"${file.name}" is larger than ${formatBytes(limits.fileBytes)}.`);
+  }
+  const used = (entry.attachments ?? []).reduce((total, ref) => total + ref.size, 0);
+  if (used + file.size > limits.entryBytes) {
+    throw new Error(`Attachments of one entry are limited to ${formatBytes(limits.entryBytes)}.`);
+  }
+  const { ref, record } = await encryptAttachment(
+    { name: file.name, mimeType: file.type || "application/octet-stream" },
+    new Uint8Array(await file.arrayBuffer()),
+  );
+  await saveAttachment(record);
+  return ref;
+}
+
+export async function readAttachment(ref: AttachmentRef): Promise<Blob> {
+  const record = await loadAttachment(ref.id);
+  if (!record) {
+    throw new Error(`"${ref.name}" is not stored on this device.`);
+  }
+  const bytes = await decryptAttachment(ref, record);
+  return new Blob([bytes], { type: ref.mimeType });
+}
+
+function referencedAttachmentIds(payload: VaultPayload): string[] {
+  const entries = [
+    ...payload.entries,
+    ...(payload.conflicts ?? []).flatMap((conflict) => [conflict.local, conflict.remote]),
+  ];
+  return entries.flatMap((entry) => (entry?.attachments ?? []).map((ref) => ref.id));
+}
+
+/**
+ * Removes stored files that nothing refers to any more: no entry or unresolved sync conflict of
+ * `payload`, and none of the copies that could bring an entry back (snapshots, the sync base).
+ * Files are kept while such a copy cannot be read with the data key; they go once it expires.
+ */
+export async function pruneAttachments(
+  keyring: VaultKeyring,
+  payload: VaultPayload,
+): Promise<void> {
+  const copies = (await loadVaultSnapshots()).map((snapshot) => snapshot.vault);
+  const { base } = await loadSyncState();
+  if (base) {
+    copies.push(base);
+  }
+  const referenced = new Set(referencedAttachmentIds(payload));
+  for (const copy of copies) {
+    try {
+      referencedAttachmentIds(await decryptPayload(keyring.dataKey, copy)).forEach((id) =>
+        referenced.add(id),
+      );
+    } catch {
+      return;
+    }
+  }
+  const orphaned = (await loadAttachmentIds()).filter((id) => !referenced.has(id));
+  await removeAttachments(orphaned);
+}
@@ -0,0 +1,226 @@
+import { argon2id } from "hash-wasm";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { openExtensionVault, sealExtensionVault } from "../../../extension/src/shared/vault";
+import { persistVault, unlockVault } from "../storage/vaultManager";
+import { clearStoredVault, loadEncryptedVault, saveEncryptedVault } from "../storage/vaultStorage";
+import {
+  createVaultKeyring,
+  generateDataKey,
+  wrapDataKey,
+  type EncryptedVault,
+  type KdfParams,
+  type VaultPayload,
+} from "./cryptoClient";
+
+const PASSWORD = "correct horse battery staple";
+const encoder = new TextEncoder();
+
+// Cheap parameters keep the suite fast; the envelope records them like any other.
+const KDFS: KdfParams[] = [
+  { algorithm: "PBKDF2", hash: "SHA-256", iterations: 1_000 },
+  { algorithm: "Argon2id", memoryKiB: 1_024, iterations: 1, parallelism: 1 },
+];
+
+function samplePayload(version: number): VaultPayload {
+  return {
+    version,
+    entries: [
+      {
+        id: "entry-1",
+        label: "Example",
+        username: "alice@example.com",
+        password: "s3cret-Pa55",
+        url: "https://login.example.com/signin",
+        createdAt: 1_700_000_000_000,
+        updatedAt: 1_700_000_000_000,
+      },
+      {
+        id: "entry-2",
+        label: "Mail",
+        username: "alice",
+        password: "another one",
+        createdAt: 1_700_000_100_000,
+        updatedAt: 1_700_000_200_000,
+      },
+    ],
+  };
+}
+
+function toBase64(bytes: Uint8Array | ArrayBuffer): string {
+  return Buffer.from(bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes).toString(
+    "base64",
+  );
+}
+
+async function deriveLegacyKey(salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> {
+  if (kdf.algorithm === "Argon2id") {
+    const raw = await argon2id({
+      password: PASSWORD,
+      salt,
+      parallelism: kdf.parallelism,
+      iterations: kdf.iterations,
+      memorySize: kdf.memoryKiB,
+      hashLength: 32,
+      outputType: "binary",
+    });
+    return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt"]);
+  }
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(PASSWORD),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: kdf.iterations, hash: kdf.hash },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt"],
+  );
+}
+
+// v1: PBKDF2 (210k), 16-byte salt, no AAD. v2: 32-byte salt, `vaultlight.v2` AAD, `kdf` block.
+async function legacyEnvelope(version: 1 | 2, kdf: KdfParams): Promise<EncryptedVault> {
+  const salt = crypto.getRandomValues(new Uint8Array(version === 1 ? 16 : 32));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveLegacyKey(salt, kdf);
+  const cipherText = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      ...(version === 2 ? { additionalData: encoder.encode("vaultlight.v2") } : {}),
+    },
+    key,
+    encoder.encode(JSON.stringify(samplePayload(1))),
+  );
+  return {
+    version,
+    cipherText: toBase64(cipherText),
+    iv: toBase64(iv),
+    salt: toBase64(salt),
+    ...(version === 2 ? { kdf } : {}),
+  };
+}
+
+// v3: random data key in key slots, whole payload under `vaultlight.v3`.
+async function v3Envelope(kdf: KdfParams): Promise<EncryptedVault> {
+  const dataKey = await generateDataKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipherText = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode("vaultlight.v3") },
+    dataKey,
+    encoder.encode(JSON.stringify(samplePayload(1))),
+  );
+  return {
+    version: 3,
+    cipherText: toBase64(cipherText),
+    iv: toBase64(iv),
+    keySlots: [await wrapDataKey(dataKey, PASSWORD, "master", kdf)],
+  };
+}
+
+function credentials(payload: VaultPayload) {
+  return payload.entries.map(({ id, label, username, password, url, updatedAt }) => ({
+    id,
+    label,
+    username,
+    password,
+    url,
+    updatedAt,
+  }));
+}
+
+async function openInWebApp(envelope: EncryptedVault, kdf: KdfParams): Promise<VaultPayload> {
+  await saveEncryptedVault(envelope);
+  const result = await unlockVault({ method: "master", password: PASSWORD }, kdf.algorithm);
+  return result.payload;
+}
+
+describe("web app and extension vault compatibility", () => {
+  beforeAll(() => {
+    const records = new Map<string, string>();
+    vi.stubGlobal("window", {
+      crypto: globalThis.crypto,
+      localStorage: {
+        getItem: (key: string) => records.get(key) ?? null,
+        setItem: (key: string, value: string) => records.set(key, value),
+        removeItem: (key: string) => records.delete(key),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await clearStoredVault();
+  });
+
+  describe.each(KDFS.map((kdf) => [kdf.algorithm, kdf] as const))("%s", (_name, kdf) => {
+    it("opens a v4 vault written by the web app in the extension", async () => {
+      const keyring = await createVaultKeyring(PASSWORD, kdf);
+      await persistVault(keyring, samplePayload(2));
+      const stored = await loadEncryptedVault();
+      expect(stored?.version).toBe(4);
+
+      const opened = await openExtensionVault(PASSWORD, stored as EncryptedVault);
+      expect(credentials(opened.payload)).toEqual(credentials(samplePayload(2)));
+    });
+
+    it("opens a v4 vault written by the extension in the web app", async () => {
+      const keyring = await createVaultKeyring(PASSWORD, kdf);
+      const sealed = await sealExtensionVault(keyring, samplePayload(2));
+      expect(sealed.version).toBe(4);
+
+      const payload = await openInWebApp(sealed, kdf);
+      expect(credentials(payload)).toEqual(credentials(samplePayload(2)));
+    });
+
+    it("keeps edits when the vault moves back and forth", async () => {
+      const keyring = await createVaultKeyring(PASSWORD, kdf);
+      await persistVault(keyring, samplePayload(2));
+      const fromWebApp = await openExtensionVault(PASSWORD, (await loadEncryptedVault())!);
+      const edited = {
+        ...fromWebApp.payload,
+        entries: fromWebApp.payload.entries.map((entry) =>
+          entry.id === "entry-2"
+            ? { ...entry, password: "changed", updatedAt: entry.updatedAt + 1 }
+            : entry,
+        ),
+      };
+      const sealed = await sealExtensionVault(fromWebApp.keyring, edited);
+
+      const payload = await openInWebApp(sealed, kdf);
+      expect(payload.entries.find((entry) => entry.id === "entry-2")?.password).toBe("changed");
+    });
+
+    it.each([3, 2] as const)("opens a v%i vault on both sides", async (version) => {
+      const envelope = version === 3 ? await v3Envelope(kdf) : await legacyEnvelope(2, kdf);
+      const expected = credentials(samplePayload(1));
+
+      const inExtension = await openExtensionVault(PASSWORD, envelope);
+      expect(credentials(inExtension.payload)).toEqual(expected);
+      const inWebApp = await openInWebApp(envelope, kdf);
+      expect(credentials(inWebApp)).toEqual(expected);
+    });
+  });
+
+  it("opens a v1 vault on both sides", async () => {
+    const kdf: KdfParams = { algorithm: "PBKDF2", hash: "SHA-256", iterations: 210_000 };
+    const envelope = await legacyEnvelope(1, kdf);
+    const expected = credentials(samplePayload(1));
+
+    const inExtension = await openExtensionVault(PASSWORD, envelope);
+    expect(credentials(inExtension.payload)).toEqual(expected);
+    const inWebApp = await openInWebApp(envelope, kdf);
+    expect(credentials(inWebApp)).toEqual(expected);
+  });
+
+  it("rejects a wrong master password on both sides", async () => {
+    const keyring = await createVaultKeyring(PASSWORD, KDFS[0]);
+    const sealed = await sealExtensionVault(keyring, samplePayload(2));
+
+    await expect(openExtensionVault("wrong", sealed)).rejects.toThrow();
+    await saveEncryptedVault(sealed);
+    await expect(unlockVault({ method: "master", password: "wrong" }, "PBKDF2")).rejects.toThrow();
+  });
+});
@@ -1,3 +1,6 @@
+import { argon2id } from "hash-wasm";
+import { CURRENT_VAULT_VERSION, type AppliedMigration } from "./vaultMigrations";
+
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 
@@ -12,6 +15,78 @@ export interface VaultEntry {
   exposure?: PasswordExposure;
   url?: string;
   domain?: string;
+  totp?: TotpConfig;
+  /** Entries without a template are logins. */
+  template?: EntryTemplateId;
+  fields?: CustomField[];
+  attachments?: AttachmentRef[];
+  /** Folder path, segments separated by "/"; unset for unfiled entries. */
+  folder?: string;
+  tags?: string[];
+  favorite?: boolean;
+  /** Passwords this entry used before, newest first. */
+  passwordHistory?: PasswordHistoryEntry[];
+}
+
+export interface PasswordHistoryEntry {
+  password: string;
+  /** When the password was replaced. */
+  changedAt: number;
+}
+
+/** An attached file. The bytes live in storage as an EncryptedAttachment under their own key. */
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  /** base64 raw AES-256 key of this file; only ever stored inside the encrypted entry. */
+  key: string;
+}
+
+export interface EncryptedAttachment {
+  id: string;
+  iv: string;
+  cipherText: string;
+}
+
+/** Device-local data (not part of the vault) sealed under the vault's data key. */
+export interface EncryptedCache {
+  iv: string;
+  cipherText: string;
+}
+
+export type EntryTemplateId =
+  | "login"
+  | "secure-note"
+  | "credit-card"
+  | "bank-account"
+  | "ssh-key"
+  | "wifi"
+  | "software-license"
+  | "identity";
+
+export type CustomFieldType = "text" | "hidden" | "url" | "email" | "date" | "number";
+
+export interface CustomField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  value: string;
+}
+
+export type TotpAlgorithm = "SHA1" | "SHA256" | "SHA512";
+
+/** RFC 6238 parameters as found in `otpauth://totp/...` URIs. */
+export interface TotpConfig {
+  /** Base32 secret, upper-case without spaces or padding. */
+  secret: string;
+  digits: number;
+  period: number;
+  algorithm: TotpAlgorithm;
+  issuer?: string;
+  account?: string;
 }
 
 export interface PasswordExposure {
@@ -19,6 +94,15 @@ export interface PasswordExposure {
   sources: ExposureSource[];
   lastChecked: number;
   errors?: string[];
+  /** How each server-side leak provider fared; absent when the browser checked on its own. */
+  providers?: ExposureProviderResult[];
+}
+
+export interface ExposureProviderResult {
+  provider: string;
+  status: "match" | "clean" | "error" | "timeout";
+  error?: string;
+  durationMs: number;
 }
 
 export interface ExposureSource {
@@ -28,31 +112,138 @@ export interface ExposureSource {
   severity: "low" | "medium" | "high";
 }
 
+/** Marks a deleted entry so other copies of the vault drop it instead of bringing it back. */
+export interface VaultTombstone {
+  id: string;
+  deletedAt: number;
+}
+
+/** Both sides of an entry edited differently on two devices; null means that side deleted it. */
+export interface EntryConflict {
+  id: string;
+  local: VaultEntry | null;
+  remote: VaultEntry | null;
+  detectedAt: number;
+}
+
 export interface VaultPayload {
   version: number;
   entries: VaultEntry[];
+  migrations?: AppliedMigration[];
+  tombstones?: VaultTombstone[];
+  conflicts?: EntryConflict[];
+}
+
+export interface Pbkdf2Params {
+  algorithm: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+}
+
+export interface Argon2idParams {
+  algorithm: "Argon2id";
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+}
+
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+export type KdfAlgorithm = KdfParams["algorithm"];
+
+export type KeySlotKind = "master" | "recovery" | "passkey";
+
+/** Passkey slots only: the credential and PRF input that reproduce the slot secret. */
+export interface PasskeySlotInfo {
+  /** base64url WebAuthn credential ID. */
+  credentialId: string;
+  /** base64url input for the PRF extension. */
+  prfSalt: string;
+  label: string;
+}
+
+/** The vault data key, wrapped by a key-encryption key derived from one unlock secret. */
+export interface VaultKeySlot {
+  id: string;
+  kind: KeySlotKind;
+  salt: string;
+  kdf: KdfParams;
+  iv: string;
+  wrappedKey: string;
+  createdAt: number;
+  passkey?: PasskeySlotInfo;
+}
+
+/**
+ * v4: one entry, encrypted on its own. `id` and `updatedAt` stay readable as an
+ * index; the encrypted payload blob lists the same pairs, so entries cannot be
+ * dropped or swapped for older copies without the data key.
+ */
+export interface EncryptedEntry {
+  id: string;
+  updatedAt: number;
+  iv: string;
+  cipherText: string;
 }
 
 export interface EncryptedVault {
   version: number;
+  /** v4: the payload without its entries plus their index; v1-v3: the whole payload. */
   cipherText: string;
   iv: string;
-  salt: string;
-  kdf?: {
-    algorithm: "PBKDF2";
-    hash: "SHA-256";
-    iterations: number;
-  };
+  /** v1/v2 only: the payload key was derived directly from the master password. */
+  salt?: string;
+  kdf?: KdfParams;
+  /** v3+: every slot wraps the same random data key. */
+  keySlots?: VaultKeySlot[];
+  /** v4 only. */
+  entries?: EncryptedEntry[];
+}
+
+/** In-memory unlock state: the data key plus the slots to write back on save. */
+export interface VaultKeyring {
+  dataKey: CryptoKey;
+  keySlots: VaultKeySlot[];
 }
 
-const DEFAULT_VAULT_VERSION = 1;
-const ENCRYPTED_VAULT_VERSION = 2;
+export interface OpenedVault {
+  payload: VaultPayload;
+  keyring: VaultKeyring;
+  /** The slot that unlocked the vault; undefined when a legacy envelope was opened. */
+  slot?: VaultKeySlot;
+}
+
+/**
+ * Envelope versions understood by this module. It is shared by the web app and
+ * the extension bundle, so both sides always read and write the same formats.
+ *
+ * - v1: PBKDF2 (210k), 16-byte salt, no additional data.
+ * - v2: 32-byte salt, `vaultlight.v2` AAD, KDF parameters in the `kdf` block.
+ * - v3: random data key wrapped by one or more `keySlots`, `vaultlight.v3` AAD.
+ * - v4: as v3, but every entry is encrypted separately under the data key
+ *   (AAD binds it to its id and `updatedAt`), and the payload blob holds the rest
+ *   along with the list of entry ids and `updatedAt` that make up the vault.
+ */
+export const SUPPORTED_ENCRYPTED_VAULT_VERSIONS: readonly number[] = [1, 2, 3, 4];
+export const ENCRYPTED_VAULT_VERSION = 4;
 const LEGACY_PBKDF2_ITERATIONS = 210_000;
 const STRONG_PBKDF2_ITERATIONS = 600_000;
+const ARGON2ID_MEMORY_KIB = 64 * 1024;
+const ARGON2ID_ITERATIONS = 3;
+const ARGON2ID_PARALLELISM = 1;
+// Upper bounds keep a tampered envelope from stalling the tab with absurd KDF costs.
+const MAX_ARGON2ID_MEMORY_KIB = 1024 * 1024;
+const MAX_KDF_ITERATIONS = 10_000_000;
 const DEFAULT_SALT_BYTES = 32;
 const LEGACY_SALT_BYTES = 16;
 const IV_BYTES = 12;
-const VAULT_AAD = encoder.encode("vaultlight.v2");
+const LEGACY_VAULT_AAD = encoder.encode("vaultlight.v2");
+const V3_VAULT_AAD = encoder.encode("vaultlight.v3");
+const VAULT_AAD = encoder.encode("vaultlight.v4");
+const ENTRY_AAD_PREFIX = "vaultlight.v4.entry";
+const KEY_SLOT_AAD_PREFIX = "vaultlight.v3.slot";
+const ATTACHMENT_AAD_PREFIX = "vaultlight.attachment";
+const CACHE_AAD_PREFIX = "vaultlight.cache";
 
 function ensureCrypto(): Crypto {
   if (typeof globalThis.crypto === "undefined") {
@@ -86,15 +277,99 @@ function fromBase64(value: string): Uint8Array {
   return bytes;
 }
 
+export const DEFAULT_KDF_ALGORITHM: KdfAlgorithm = "Argon2id";
+
+export function defaultKdfParams(algorithm: KdfAlgorithm = DEFAULT_KDF_ALGORITHM): KdfParams {
+  if (algorithm === "Argon2id") {
+    return {
+      algorithm: "Argon2id",
+      memoryKiB: ARGON2ID_MEMORY_KIB,
+      iterations: ARGON2ID_ITERATIONS,
+      parallelism: ARGON2ID_PARALLELISM,
+    };
+  }
+  return {
+    algorithm: "PBKDF2",
+    hash: "SHA-256",
+    iterations: STRONG_PBKDF2_ITERATIONS,
+  };
+}
+
+function validateKdf(kdf: KdfParams) {
+  if (kdf.algorithm === "PBKDF2") {
+    if (kdf.hash !== "SHA-256") {
+      throw new Error(`Unsupported PBKDF2 hash ${kdf.hash}.`);
+    }
+    if (!Number.isInteger(kdf.iterations) || kdf.iterations < 1 || kdf.iterations > MAX_KDF_ITERATIONS) {
+      throw new Error(`Invalid PBKDF2 iteration count ${kdf.iterations}.`);
+    }
+    return;
+  }
+  if (kdf.algorithm === "Argon2id") {
+    if (
+      !Number.isInteger(kdf.memoryKiB) ||
+      !Number.isInteger(kdf.iterations) ||
+      !Number.isInteger(kdf.parallelism) ||
+      kdf.parallelism < 1 ||
+      kdf.parallelism > 16 ||
+      kdf.iterations < 1 ||
+      kdf.iterations > 64 ||
+      kdf.memoryKiB < 8 * kdf.parallelism ||
+      kdf.memoryKiB > MAX_ARGON2ID_MEMORY_KIB
+    ) {
+      throw new Error("Invalid Argon2id parameters.");
+    }
+    return;
+  }
+  throw new Error(`Unsupported KDF ${(kdf as { algorithm?: string }).algorithm}.`);
+}
+
+async function deriveArgon2idKey(
+  secret: string,
+  salt: Uint8Array,
+  params: Argon2idParams,
+  usages: KeyUsage[],
+): Promise<CryptoKey> {
+  const crypto = ensureCrypto();
+  const rawKey = await argon2id({
+    password: secret,
+    salt,
+    parallelism: params.parallelism,
+    iterations: params.iterations,
+    memorySize: params.memoryKiB,
+    hashLength: 32,
+    outputType: "binary",
+  });
+  try {
+    return await crypto.subtle.importKey(
+      "raw",
+      rawKey,
+      {
+        name: "AES-GCM",
+        length: 256,
+      },
+      false,
+      usages,
+    );
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
 async function deriveKey(
-  masterPassword: string,
+  secret: string,
   salt: Uint8Array,
-  iterations: number,
+  kdf: KdfParams,
+  usages: KeyUsage[],
 ): Promise<CryptoKey> {
+  validateKdf(kdf);
+  if (kdf.algorithm === "Argon2id") {
+    return deriveArgon2idKey(secret, salt, kdf, usages);
+  }
   const crypto = ensureCrypto();
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
-    encoder.encode(masterPassword),
+    encoder.encode(secret),
     "PBKDF2",
     false,
     ["deriveKey"],
@@ -104,8 +379,8 @@ async function deriveKey(
     {
       name: "PBKDF2",
       salt,
-      iterations,
-      hash: "SHA-256",
+      iterations: kdf.iterations,
+      hash: kdf.hash,
     },
     keyMaterial,
     {
@@ -113,7 +388,7 @@ async function deriveKey(
       length: 256,
     },
     false,
-    ["encrypt", "decrypt"],
+    usages,
   );
 }
 
@@ -125,90 +400,534 @@ function requireLength(bytes: Uint8Array, expected: number, label: string) {
   }
 }
 
-export async function encryptVault(
-  masterPassword: string,
-  payload: VaultPayload,
-): Promise<EncryptedVault> {
+function requireSupportedVersion(encrypted: EncryptedVault): number {
+  const encryptedVersion = encrypted.version ?? 1;
+  if (!SUPPORTED_ENCRYPTED_VAULT_VERSIONS.includes(encryptedVersion)) {
+    throw new Error(
+      `Unsupported encrypted vault version ${encryptedVersion}. Expected ${ENCRYPTED_VAULT_VERSION}.`,
+    );
+  }
+  return encryptedVersion;
+}
+
+function slotAdditionalData(slot: Pick<VaultKeySlot, "id" | "kind">): Uint8Array {
+  return encoder.encode(`${KEY_SLOT_AAD_PREFIX}:${slot.id}:${slot.kind}`);
+}
+
+function parsePayload(plainBuffer: ArrayBuffer): VaultPayload {
+  const decoded = decoder.decode(plainBuffer);
+  const payload = JSON.parse(decoded) as VaultPayload;
+  if (!payload || typeof payload !== "object" || !Array.isArray(payload.entries)) {
+    throw new Error("Decrypted vault payload is malformed.");
+  }
+  // Schema upgrades are applied by the caller via migrateVaultPayload.
+  return payload;
+}
+
+function entryAdditionalData(entry: Pick<EncryptedEntry, "id" | "updatedAt">): Uint8Array {
+  return encoder.encode(`${ENTRY_AAD_PREFIX}:${entry.id}:${entry.updatedAt}`);
+}
+
+type EntryIndex = Array<Pick<EncryptedEntry, "id" | "updatedAt">>;
+
+// The v4 payload blob carries the entry index so it is authenticated with the rest.
+interface PayloadHeader extends VaultPayload {
+  entryIndex?: EntryIndex;
+}
+
+function requireMatchingIndex(index: EntryIndex | undefined, records: EncryptedEntry[]) {
+  if (!Array.isArray(index)) {
+    throw new Error("Encrypted vault has no entry index.");
+  }
+  const mismatch =
+    index.length !== records.length ||
+    records.some(
+      (record, position) =>
+        record.id !== index[position]?.id || record.updatedAt !== index[position]?.updatedAt,
+    );
+  if (mismatch) {
+    throw new Error("Encrypted entries do not match the vault index.");
+  }
+}
+
+function generateId(): string {
+  const crypto = ensureCrypto();
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/** Creates a random 256-bit data-encryption key. It must stay extractable so key slots can wrap it. */
+export async function generateDataKey(): Promise<CryptoKey> {
+  const crypto = ensureCrypto();
+  return crypto.subtle.generateKey(
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export async function wrapDataKey(
+  dataKey: CryptoKey,
+  secret: string,
+  kind: KeySlotKind,
+  kdf: KdfParams = defaultKdfParams(),
+  passkey?: PasskeySlotInfo,
+): Promise<VaultKeySlot> {
   const crypto = ensureCrypto();
+  const slot: Pick<VaultKeySlot, "id" | "kind"> = { id: generateId(), kind };
   const salt = crypto.getRandomValues(new Uint8Array(DEFAULT_SALT_BYTES));
   const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
-  const key = await deriveKey(masterPassword, salt, STRONG_PBKDF2_ITERATIONS);
-  const plaintext = encoder.encode(JSON.stringify(payload));
+  const keyEncryptionKey = await deriveKey(secret, salt, kdf, ["wrapKey"]);
+  const wrapped = await crypto.subtle.wrapKey("raw", dataKey, keyEncryptionKey, {
+    name: "AES-GCM",
+    iv,
+    additionalData: slotAdditionalData(slot),
+  });
+  return {
+    ...slot,
+    salt: toBase64(salt),
+    kdf,
+    iv: toBase64(iv),
+    wrappedKey: toBase64(wrapped),
+    createdAt: Date.now(),
+    ...(passkey ? { passkey } : {}),
+  };
+}
 
-  const cipherBuffer = await crypto.subtle.encrypt(
+export async function unwrapDataKey(slot: VaultKeySlot, secret: string): Promise<CryptoKey> {
+  const crypto = ensureCrypto();
+  const salt = fromBase64(slot.salt);
+  const iv = fromBase64(slot.iv);
+  requireLength(salt, DEFAULT_SALT_BYTES, "salt");
+  requireLength(iv, IV_BYTES, "iv");
+  const keyEncryptionKey = await deriveKey(secret, salt, slot.kdf, ["unwrapKey"]);
+  return crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(slot.wrappedKey),
+    keyEncryptionKey,
     {
       name: "AES-GCM",
       iv,
-      additionalData: VAULT_AAD,
+      additionalData: slotAdditionalData(slot),
     },
-    key,
-    plaintext,
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"],
   );
+}
 
+export async function createVaultKeyring(
+  masterPassword: string,
+  kdf: KdfParams = defaultKdfParams(),
+): Promise<VaultKeyring> {
+  const dataKey = await generateDataKey();
+  return {
+    dataKey,
+    keySlots: [await wrapDataKey(dataKey, masterPassword, "master", kdf)],
+  };
+}
+
+/** Replaces every slot of the given kind with a fresh one; the data key and other slots are kept. */
+export async function replaceKeySlot(
+  keyring: VaultKeyring,
+  kind: KeySlotKind,
+  secret: string,
+  kdf: KdfParams = defaultKdfParams(),
+): Promise<VaultKeyring> {
+  const slot = await wrapDataKey(keyring.dataKey, secret, kind, kdf);
+  return {
+    dataKey: keyring.dataKey,
+    keySlots: [...keyring.keySlots.filter((existing) => existing.kind !== kind), slot],
+  };
+}
+
+async function encryptBlob(
+  dataKey: CryptoKey,
+  value: unknown,
+  additionalData: Uint8Array,
+): Promise<{ iv: string; cipherText: string }> {
+  const crypto = ensureCrypto();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipherBuffer = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData,
+    },
+    dataKey,
+    encoder.encode(JSON.stringify(value)),
+  );
   return {
-    version: ENCRYPTED_VAULT_VERSION,
-    cipherText: toBase64(cipherBuffer),
     iv: toBase64(iv),
-    salt: toBase64(salt),
-    kdf: {
-      algorithm: "PBKDF2",
-      hash: "SHA-256",
-      iterations: STRONG_PBKDF2_ITERATIONS,
+    cipherText: toBase64(cipherBuffer),
+  };
+}
+
+async function decryptBlob(
+  dataKey: CryptoKey,
+  blob: { iv: string; cipherText: string },
+  additionalData: Uint8Array,
+): Promise<ArrayBuffer> {
+  const crypto = ensureCrypto();
+  const iv = fromBase64(blob.iv);
+  requireLength(iv, IV_BYTES, "iv");
+  return crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData,
     },
+    dataKey,
+    fromBase64(blob.cipherText),
+  );
+}
+
+export async function encryptPayload(
+  keyring: VaultKeyring,
+  payload: VaultPayload,
+): Promise<EncryptedVault> {
+  const { entries, ...rest } = payload;
+  const headerPayload: PayloadHeader = {
+    ...rest,
+    entries: [],
+    entryIndex: entries.map((entry) => ({ id: entry.id, updatedAt: entry.updatedAt })),
+  };
+  const header = await encryptBlob(keyring.dataKey, headerPayload, VAULT_AAD);
+  const encryptedEntries = await Promise.all(
+    entries.map(async (entry) => ({
+      id: entry.id,
+      updatedAt: entry.updatedAt,
+      ...(await encryptBlob(keyring.dataKey, entry, entryAdditionalData(entry))),
+    })),
+  );
+
+  return {
+    version: ENCRYPTED_VAULT_VERSION,
+    cipherText: header.cipherText,
+    iv: header.iv,
+    keySlots: keyring.keySlots,
+    entries: encryptedEntries,
+  };
+}
+
+export async function decryptPayload(
+  dataKey: CryptoKey,
+  encrypted: EncryptedVault,
+): Promise<VaultPayload> {
+  const encryptedVersion = requireSupportedVersion(encrypted);
+  if (encryptedVersion < 3) {
+    throw new Error("Legacy vaults have no data key; open them with the master password.");
+  }
+  if (encryptedVersion === 3) {
+    return parsePayload(await decryptBlob(dataKey, encrypted, V3_VAULT_AAD));
+  }
+  const { entryIndex, ...payload } = parsePayload(
+    await decryptBlob(dataKey, encrypted, VAULT_AAD),
+  ) as PayloadHeader;
+  const records = encrypted.entries ?? [];
+  requireMatchingIndex(entryIndex, records);
+  const entries = await Promise.all(
+    records.map(async (record) => {
+      const buffer = await decryptBlob(dataKey, record, entryAdditionalData(record));
+      const entry = JSON.parse(decoder.decode(buffer)) as VaultEntry;
+      if (entry.id !== record.id) {
+        throw new Error("Encrypted entry does not match its index.");
+      }
+      return entry;
+    }),
+  );
+  return {
+    ...payload,
+    entries,
   };
 }
 
-export async function decryptVault(
+async function decryptLegacyVault(
   masterPassword: string,
   encrypted: EncryptedVault,
+  encryptedVersion: number,
 ): Promise<VaultPayload> {
   const crypto = ensureCrypto();
-  const encryptedVersion = encrypted.version ?? 1;
-  if (encryptedVersion > ENCRYPTED_VAULT_VERSION) {
-    throw new Error(
-      `Unsupported encrypted vault version ${encryptedVersion}. Expected ${ENCRYPTED_VAULT_VERSION}.`,
-    );
+  if (!encrypted.salt) {
+    throw new Error("Legacy vault is missing its salt.");
   }
   const salt = fromBase64(encrypted.salt);
   const iv = fromBase64(encrypted.iv);
-  const iterations =
-    encrypted.kdf?.iterations ??
-    (encryptedVersion >= 2 ? STRONG_PBKDF2_ITERATIONS : LEGACY_PBKDF2_ITERATIONS);
-  if (encrypted.kdf && encrypted.kdf.algorithm !== "PBKDF2") {
-    throw new Error(`Unsupported KDF ${encrypted.kdf.algorithm}.`);
-  }
+  const kdf: KdfParams = encrypted.kdf ?? {
+    algorithm: "PBKDF2",
+    hash: "SHA-256",
+    iterations: encryptedVersion >= 2 ? STRONG_PBKDF2_ITERATIONS : LEGACY_PBKDF2_ITERATIONS,
+  };
   if (encryptedVersion >= 2) {
     requireLength(salt, DEFAULT_SALT_BYTES, "salt");
   } else {
     requireLength(salt, LEGACY_SALT_BYTES, "salt");
   }
   requireLength(iv, IV_BYTES, "iv");
-  const key = await deriveKey(masterPassword, salt, iterations);
+  const key = await deriveKey(masterPassword, salt, kdf, ["decrypt"]);
   const cipherText = fromBase64(encrypted.cipherText);
 
   const plainBuffer = await crypto.subtle.decrypt(
     {
       name: "AES-GCM",
       iv,
-      additionalData: encryptedVersion >= 2 ? VAULT_AAD : undefined,
+      additionalData: encryptedVersion >= 2 ? LEGACY_VAULT_AAD : undefined,
     },
     key,
     cipherText,
   );
 
-  const decoded = decoder.decode(plainBuffer);
-  const payload = JSON.parse(decoded) as VaultPayload;
-  if (payload.version !== DEFAULT_VAULT_VERSION) {
-    throw new Error(
-      `Unsupported vault version ${payload.version}. Expected ${DEFAULT_VAULT_VERSION}.`,
-    );
+  return parsePayload(plainBuffer);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural check for envelopes read from untrusted sources (files, sync).
+ * It does not prove the ciphertext decrypts; open the vault for that.
+ */
+export function parseEncryptedVault(value: unknown): EncryptedVault {
+  if (!isRecord(value)) {
+    throw new Error("Encrypted vault must be an object.");
   }
-  return payload;
+  const version = value.version ?? 1;
+  if (typeof version !== "number" || !SUPPORTED_ENCRYPTED_VAULT_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported encrypted vault version ${String(version)}.`);
+  }
+  if (typeof value.cipherText !== "string" || typeof value.iv !== "string") {
+    throw new Error("Encrypted vault is missing its ciphertext or IV.");
+  }
+  if (version < 3) {
+    if (typeof value.salt !== "string") {
+      throw new Error("Legacy encrypted vault is missing its salt.");
+    }
+    return value as unknown as EncryptedVault;
+  }
+  const slots = value.keySlots;
+  if (!Array.isArray(slots) || slots.length === 0) {
+    throw new Error("Encrypted vault has no key slots.");
+  }
+  slots.forEach((slot, index) => {
+    if (
+      !isRecord(slot) ||
+      typeof slot.id !== "string" ||
+      typeof slot.kind !== "string" ||
+      typeof slot.salt !== "string" ||
+      typeof slot.iv !== "string" ||
+      typeof slot.wrappedKey !== "string" ||
+      !isRecord(slot.kdf)
+    ) {
+      throw new Error(`Key slot ${index + 1} is malformed.`);
+    }
+    if (
+      slot.passkey !== undefined &&
+      (!isRecord(slot.passkey) ||
+        typeof slot.passkey.credentialId !== "string" ||
+        typeof slot.passkey.prfSalt !== "string" ||
+        typeof slot.passkey.label !== "string")
+    ) {
+      throw new Error(`Key slot ${index + 1} has malformed passkey details.`);
+    }
+    validateKdf(slot.kdf as unknown as KdfParams);
+  });
+  if (version >= 4) {
+    const entries = value.entries;
+    if (!Array.isArray(entries)) {
+      throw new Error("Encrypted vault is missing its entries.");
+    }
+    entries.forEach((entry, index) => {
+      if (
+        !isRecord(entry) ||
+        typeof entry.id !== "string" ||
+        typeof entry.updatedAt !== "number" ||
+        typeof entry.iv !== "string" ||
+        typeof entry.cipherText !== "string"
+      ) {
+        throw new Error(`Encrypted entry ${index + 1} is malformed.`);
+      }
+    });
+  }
+  return value as unknown as EncryptedVault;
+}
+
+/**
+ * Unwraps the data key with the first matching slot of `kind` and decrypts the payload.
+ * Legacy v1/v2 envelopes are decrypted with the password-derived key and receive a fresh
+ * data key plus master slot (`slot` is undefined), to be written on the next save.
+ */
+export async function openVault(
+  secret: string,
+  encrypted: EncryptedVault,
+  kind: KeySlotKind = "master",
+  legacyKdf: KdfParams = defaultKdfParams(),
+): Promise<OpenedVault> {
+  const encryptedVersion = requireSupportedVersion(encrypted);
+  if (encryptedVersion < 3) {
+    if (kind !== "master") {
+      throw new Error("Legacy vaults can only be opened with the master password.");
+    }
+    const payload = await decryptLegacyVault(secret, encrypted, encryptedVersion);
+    return {
+      payload,
+      keyring: await createVaultKeyring(secret, legacyKdf),
+    };
+  }
+
+  const candidates = (encrypted.keySlots ?? []).filter((slot) => slot.kind === kind);
+  if (candidates.length === 0) {
+    throw new Error(`Vault has no ${kind} key slot.`);
+  }
+  let lastError: unknown = null;
+  for (const slot of candidates) {
+    try {
+      return await openWithSlot(secret, encrypted, slot);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("Vault could not be unlocked.");
+}
+
+/** Opens a v3+ envelope with one known slot, e.g. the passkey the authenticator answered for. */
+export async function openVaultWithSlot(
+  secret: string,
+  encrypted: EncryptedVault,
+  slotId: string,
+): Promise<OpenedVault> {
+  if (requireSupportedVersion(encrypted) < 3) {
+    throw new Error("Legacy vaults can only be opened with the master password.");
+  }
+  const slot = encrypted.keySlots?.find((candidate) => candidate.id === slotId);
+  if (!slot) {
+    throw new Error("Key slot not found.");
+  }
+  return openWithSlot(secret, encrypted, slot);
+}
+
+async function openWithSlot(
+  secret: string,
+  encrypted: EncryptedVault,
+  slot: VaultKeySlot,
+): Promise<OpenedVault> {
+  const dataKey = await unwrapDataKey(slot, secret);
+  const payload = await decryptPayload(dataKey, encrypted);
+  return {
+    payload,
+    keyring: { dataKey, keySlots: encrypted.keySlots ?? [] },
+    slot,
+  };
+}
+
+function attachmentAdditionalData(id: string): Uint8Array {
+  return encoder.encode(`${ATTACHMENT_AAD_PREFIX}:${id}`);
+}
+
+/**
+ * Encrypts a file under a fresh per-file key. The key goes into the returned
+ * ref (and so into the encrypted entry); the record is stored on its own.
+ */
+export async function encryptAttachment(
+  file: Pick<AttachmentRef, "name" | "mimeType">,
+  bytes: Uint8Array,
+): Promise<{ ref: AttachmentRef; record: EncryptedAttachment }> {
+  const crypto = ensureCrypto();
+  const id = generateId();
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipherBuffer = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: attachmentAdditionalData(id),
+    },
+    key,
+    bytes,
+  );
+  return {
+    ref: {
+      id,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: bytes.length,
+      createdAt: Date.now(),
+      key: toBase64(await crypto.subtle.exportKey("raw", key)),
+    },
+    record: {
+      id,
+      iv: toBase64(iv),
+      cipherText: toBase64(cipherBuffer),
+    },
+  };
+}
+
+export async function decryptAttachment(
+  ref: AttachmentRef,
+  record: EncryptedAttachment,
+): Promise<Uint8Array> {
+  const crypto = ensureCrypto();
+  if (record.id !== ref.id) {
+    throw new Error("Encrypted attachment does not match its entry.");
+  }
+  const rawKey = fromBase64(ref.key);
+  requireLength(rawKey, 32, "attachment key");
+  const key = await crypto.subtle.importKey("raw", rawKey, { name: "AES-GCM", length: 256 }, false, [
+    "decrypt",
+  ]);
+  const plain = await decryptBlob(key, record, attachmentAdditionalData(record.id));
+  return new Uint8Array(plain);
+}
+
+/** `name` is bound into the AAD, so one cache cannot be passed off as another. */
+export async function encryptCache(
+  keyring: VaultKeyring,
+  name: string,
+  value: unknown,
+): Promise<EncryptedCache> {
+  return encryptBlob(keyring.dataKey, value, encoder.encode(`${CACHE_AAD_PREFIX}:${name}`));
+}
+
+export async function decryptCache<T>(
+  keyring: VaultKeyring,
+  name: string,
+  record: EncryptedCache,
+): Promise<T> {
+  const plain = await decryptBlob(
+    keyring.dataKey,
+    record,
+    encoder.encode(`${CACHE_AAD_PREFIX}:${name}`),
+  );
+  return JSON.parse(decoder.decode(plain)) as T;
+}
+
+/** Structural check for attachment records read from backups. */
+export function parseEncryptedAttachment(value: unknown): EncryptedAttachment {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.iv !== "string" ||
+    typeof value.cipherText !== "string"
+  ) {
+    throw new Error("Encrypted attachment is malformed.");
+  }
+  return { id: value.id, iv: value.iv, cipherText: value.cipherText };
 }
 
 export function emptyVault(): VaultPayload {
   return {
-    version: DEFAULT_VAULT_VERSION,
+    version: CURRENT_VAULT_VERSION,
     entries: [],
   };
 }
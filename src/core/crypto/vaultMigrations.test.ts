@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { VaultEntry, VaultPayload } from "./cryptoClient";
+import {
+  CURRENT_VAULT_VERSION,
+  VAULT_MIGRATIONS,
+  migrateVaultPayload,
+  type VaultMigration,
+} from "./vaultMigrations";
+
+function entry(partial: Partial<VaultEntry>): VaultEntry {
+  return {
+    id: "entry",
+    label: "Entry",
+    username: "alice",
+    password: "secret",
+    createdAt: 1,
+    updatedAt: 1,
+    ...partial,
+  };
+}
+
+function step(id: string, from: number, to: number): VaultMigration {
+  return { id, from, to, description: id, migrate: (payload) => payload };
+}
+
+describe("0001-backfill-entry-domains", () => {
+  const [backfill] = VAULT_MIGRATIONS;
+
+  it("derives a missing domain from the entry URL", () => {
+    const result = backfill.migrate({
+      version: 1,
+      entries: [entry({ url: "https://www.Example.com/login" })],
+    });
+    expect(result.entries[0].domain).toBe("example.com");
+  });
+
+  it("keeps an existing domain", () => {
+    const result = backfill.migrate({
+      version: 1,
+      entries: [entry({ url: "https://login.example.com", domain: "example.com" })],
+    });
+    expect(result.entries[0].domain).toBe("example.com");
+  });
+
+  it("leaves entries without a URL alone", () => {
+    const original = entry({});
+    const result = backfill.migrate({ version: 1, entries: [original] });
+    expect(result.entries[0]).toBe(original);
+  });
+});
+
+describe("migrateVaultPayload", () => {
+  it("brings a v1 payload to the current version and records the steps", () => {
+    const { payload, applied } = migrateVaultPayload({
+      version: 1,
+      entries: [entry({ url: "https://example.org" })],
+    });
+    expect(payload.version).toBe(CURRENT_VAULT_VERSION);
+    expect(applied.map((migration) => migration.id)).toEqual(["0001-backfill-entry-domains"]);
+    expect(payload.migrations).toEqual(applied);
+    expect(payload.entries[0].domain).toBe("example.org");
+  });
+
+  it("runs steps in version order and appends to earlier history", () => {
+    const earlier = { id: "earlier", from: 0, to: 1, appliedAt: 1 };
+    const { payload, applied } = migrateVaultPayload(
+      { version: 1, entries: [], migrations: [earlier] },
+      [step("b", 2, 3), step("a", 1, 2)],
+    );
+    expect(payload.version).toBe(3);
+    expect(applied.map((migration) => migration.id)).toEqual(["a", "b"]);
+    expect(payload.migrations?.map((migration) => migration.id)).toEqual(["earlier", "a", "b"]);
+  });
+
+  it("returns a current payload unchanged", () => {
+    const current: VaultPayload = { version: CURRENT_VAULT_VERSION, entries: [] };
+    const { payload, applied } = migrateVaultPayload(current);
+    expect(payload).toBe(current);
+    expect(applied).toEqual([]);
+  });
+
+  it("rejects invalid and newer versions", () => {
+    expect(() => migrateVaultPayload({ version: 0, entries: [] })).toThrow(
+      "Invalid vault version 0.",
+    );
+    expect(() => migrateVaultPayload({ version: CURRENT_VAULT_VERSION + 1, entries: [] })).toThrow(
+      /newer Vaultlight release/,
+    );
+  });
+
+  it("rejects a gap in the migration chain", () => {
+    expect(() => migrateVaultPayload({ version: 1, entries: [] }, [step("b", 2, 3)])).toThrow(
+      "No migration available for vault version 1.",
+    );
+  });
+
+  it("rejects a step that does not move the version forward", () => {
+    const steps = [step("stuck", 1, 1), step("next", 2, 3)];
+    expect(() => migrateVaultPayload({ version: 1, entries: [] }, steps)).toThrow(
+      "Migration stuck does not move the vault version forward.",
+    );
+  });
+});
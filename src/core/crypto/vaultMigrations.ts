@@ -0,0 +1,106 @@
+import type { VaultEntry, VaultPayload } from "./cryptoClient";
+import { normalizeHost } from "../utils/url";
+
+export interface AppliedMigration {
+  id: string;
+  from: number;
+  to: number;
+  appliedAt: number;
+}
+
+export interface VaultMigration {
+  id: string;
+  from: number;
+  to: number;
+  description: string;
+  migrate: (payload: VaultPayload) => VaultPayload;
+}
+
+export interface MigrationResult {
+  payload: VaultPayload;
+  applied: AppliedMigration[];
+}
+
+function mapEntries(
+  payload: VaultPayload,
+  transform: (entry: VaultEntry) => VaultEntry,
+): VaultPayload {
+  return {
+    ...payload,
+    entries: (payload.entries ?? []).map(transform),
+  };
+}
+
+/**
+ * Ordered schema steps. Each step moves the payload exactly one version forward;
+ * append new steps at the end and never rewrite a step that has shipped.
+ */
+export const VAULT_MIGRATIONS: VaultMigration[] = [
+  {
+    id: "0001-backfill-entry-domains",
+    from: 1,
+    to: 2,
+    description: "Derive missing entry domains from stored URLs.",
+    migrate: (payload) =>
+      mapEntries(payload, (entry) => {
+        if (entry.domain || !entry.url) {
+          return entry;
+        }
+        const domain = normalizeHost(entry.url);
+        return domain ? { ...entry, domain } : entry;
+      }),
+  },
+];
+
+export const CURRENT_VAULT_VERSION = VAULT_MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.to),
+  1,
+);
+
+export function migrateVaultPayload(
+  payload: VaultPayload,
+  migrations: VaultMigration[] = VAULT_MIGRATIONS,
+): MigrationResult {
+  const targetVersion = migrations.reduce(
+    (latest, migration) => Math.max(latest, migration.to),
+    1,
+  );
+  if (!Number.isInteger(payload.version) || payload.version < 1) {
+    throw new Error(`Invalid vault version ${String(payload.version)}.`);
+  }
+  if (payload.version > targetVersion) {
+    throw new Error(
+      `Vault version ${payload.version} was written by a newer Vaultlight release (supported up to ${targetVersion}).`,
+    );
+  }
+
+  let current = payload;
+  const applied: AppliedMigration[] = [];
+  while (current.version < targetVersion) {
+    const step = migrations.find((migration) => migration.from === current.version);
+    if (!step) {
+      throw new Error(`No migration available for vault version ${current.version}.`);
+    }
+    if (step.to <= step.from) {
+      throw new Error(`Migration ${step.id} does not move the vault version forward.`);
+    }
+    const migrated = step.migrate(current);
+    const record: AppliedMigration = {
+      id: step.id,
+      from: step.from,
+      to: step.to,
+      appliedAt: Date.now(),
+    };
+    applied.push(record);
+    current = {
+      ...migrated,
+      version: step.to,
+      migrations: [...(current.migrations ?? []), record],
+    };
+  }
+
+  return {
+    payload: current,
+    applied,
+  };
+}
@@ -0,0 +1,216 @@
+import type { VaultEntry, VaultPayload } from "../crypto/cryptoClient";
+
+export const FOLDER_SEPARATOR = "/";
+
+export type EntryFilter =
+  | { kind: "all" }
+  | { kind: "favorites" }
+  | { kind: "unfiled" }
+  /** The folder and everything below it. */
+  | { kind: "folder"; path: string }
+  | { kind: "tag"; tag: string };
+
+export interface FolderNode {
+  name: string;
+  path: string;
+  /** Entries in this folder and all of its subfolders. */
+  count: number;
+  children: FolderNode[];
+}
+
+export interface TagSummary {
+  tag: string;
+  count: number;
+}
+
+export function isSameEntryFilter(a: EntryFilter, b: EntryFilter): boolean {
+  if (a.kind === "folder" && b.kind === "folder") {
+    return a.path === b.path;
+  }
+  if (a.kind === "tag" && b.kind === "tag") {
+    return sameTag(a.tag, b.tag);
+  }
+  return a.kind === b.kind;
+}
+
+/** "Work / Servers/" becomes "Work/Servers"; an empty path means the entry is unfiled. */
+export function normalizeFolderPath(path: string): string | undefined {
+  const segments = path
+    .split(FOLDER_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  return segments.length > 0 ? segments.join(FOLDER_SEPARATOR) : undefined;
+}
+
+/** Comma-separated input to a tag list. Duplicates are dropped case-insensitively; the first spelling wins. */
+export function parseTags(input: string): string[] {
+  const seen = new Set<string>();
+  return input
+    .split(",")
+    .map((tag) => tag.trim().replace(/\s+/g, " "))
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isInFolder(entry: VaultEntry, path: string): boolean {
+  return entry.folder === path || Boolean(entry.folder?.startsWith(`${path}${FOLDER_SEPARATOR}`));
+}
+
+export function matchesEntryFilter(entry: VaultEntry, filter: EntryFilter): boolean {
+  switch (filter.kind) {
+    case "favorites":
+      return Boolean(entry.favorite);
+    case "unfiled":
+      return !entry.folder;
+    case "folder":
+      return isInFolder(entry, filter.path);
+    case "tag":
+      return (entry.tags ?? []).some((tag) => sameTag(tag, filter.tag));
+    default:
+      return true;
+  }
+}
+
+/** Folder tree of all entries, every level sorted by name. Parent folders exist implicitly. */
+export function buildFolderTree(entries: VaultEntry[]): FolderNode[] {
+  const root: FolderNode = { name: "", path: "", count: 0, children: [] };
+  entries.forEach((entry) => {
+    if (!entry.folder) {
+      return;
+    }
+    let node = root;
+    entry.folder.split(FOLDER_SEPARATOR).forEach((name) => {
+      const path = node.path ? `${node.path}${FOLDER_SEPARATOR}${name}` : name;
+      let child = node.children.find((candidate) => candidate.name === name);
+      if (!child) {
+        child = { name, path, count: 0, children: [] };
+        node.children.push(child);
+      }
+      child.count += 1;
+      node = child;
+    });
+  });
+  const sort = (nodes: FolderNode[]): FolderNode[] =>
+    nodes
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((node) => ({ ...node, children: sort(node.children) }));
+  return sort(root.children);
+}
+
+export function listFolderPaths(tree: FolderNode[]): string[] {
+  return tree.flatMap((node) => [node.path, ...listFolderPaths(node.children)]);
+}
+
+export function collectTags(entries: VaultEntry[]): TagSummary[] {
+  const summaries: TagSummary[] = [];
+  entries.forEach((entry) => {
+    (entry.tags ?? []).forEach((tag) => {
+      const existing = summaries.find((summary) => sameTag(summary.tag, tag));
+      if (existing) {
+        existing.count += 1;
+      } else {
+        summaries.push({ tag, count: 1 });
+      }
+    });
+  });
+  return summaries.sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+// Only entries the update actually changed get a new `updatedAt`, so sync does not see phantom edits.
+function updateEntries(
+  payload: VaultPayload,
+  ids: string[],
+  update: (entry: VaultEntry) => VaultEntry,
+  now: number,
+): VaultPayload {
+  return {
+    ...payload,
+    entries: payload.entries.map((entry) => {
+      if (!ids.includes(entry.id)) {
+        return entry;
+      }
+      const next = update(entry);
+      return next === entry ? entry : { ...next, updatedAt: now };
+    }),
+  };
+}
+
+export function moveEntries(
+  payload: VaultPayload,
+  ids: string[],
+  folder: string,
+  now = Date.now(),
+): VaultPayload {
+  const path = normalizeFolderPath(folder);
+  return updateEntries(
+    payload,
+    ids,
+    (entry) => (entry.folder === path ? entry : { ...entry, folder: path }),
+    now,
+  );
+}
+
+export function tagEntries(
+  payload: VaultPayload,
+  ids: string[],
+  tag: string,
+  now = Date.now(),
+): VaultPayload {
+  const [added] = parseTags(tag);
+  if (!added) {
+    return payload;
+  }
+  return updateEntries(
+    payload,
+    ids,
+    (entry) =>
+      (entry.tags ?? []).some((existing) => sameTag(existing, added))
+        ? entry
+        : { ...entry, tags: [...(entry.tags ?? []), added] },
+    now,
+  );
+}
+
+export function untagEntries(
+  payload: VaultPayload,
+  ids: string[],
+  tag: string,
+  now = Date.now(),
+): VaultPayload {
+  return updateEntries(
+    payload,
+    ids,
+    (entry) => {
+      const tags = (entry.tags ?? []).filter((existing) => !sameTag(existing, tag));
+      if (tags.length === (entry.tags ?? []).length) {
+        return entry;
+      }
+      return { ...entry, tags: tags.length > 0 ? tags : undefined };
+    },
+    now,
+  );
+}
+
+export function setFavorite(
+  payload: VaultPayload,
+  id: string,
+  favorite: boolean,
+  now = Date.now(),
+): VaultPayload {
+  return updateEntries(
+    payload,
+    [id],
+    (entry) => ({ ...entry, favorite: favorite || undefined }),
+    now,
+  );
+}
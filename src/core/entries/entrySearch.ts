@@ -0,0 +1,172 @@
+import type { VaultEntry } from "../crypto/cryptoClient";
+import { getEntryTemplate } from "./entryTemplates";
+
+/** What the index reads; the extension's entry previews carry only part of it. */
+export type SearchableEntry = { label: string } & Partial<
+  Pick<
+    VaultEntry,
+    "username" | "url" | "domain" | "tags" | "folder" | "notes" | "fields" | "template" | "attachments"
+  >
+>;
+
+export interface SearchIndex<T> {
+  /** All entries in their original order for an empty query, otherwise matches best first. */
+  search(query: string): T[];
+}
+
+interface IndexedField {
+  weight: number;
+  text: string;
+  tokens: string[];
+}
+
+// Label and domain decide most searches; long free text only breaks ties.
+const FIELD_WEIGHTS = {
+  label: 10,
+  domain: 7,
+  tags: 6,
+  username: 5,
+  url: 4,
+  folder: 3,
+  fields: 2,
+  notes: 2,
+  other: 1,
+};
+
+const EXACT = 1;
+const PREFIX = 0.8;
+const SUBSTRING = 0.5;
+const FUZZY = 0.3;
+
+function normalize(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[^\w\u00c0-\uffff]+|_+/).filter(Boolean);
+}
+
+function indexField(weight: number, values: Array<string | undefined>): IndexedField | null {
+  const text = normalize(values.filter(Boolean).join(" "));
+  return text ? { weight, text, tokens: tokenize(text) } : null;
+}
+
+/**
+ * Passwords, TOTP secrets and the values of hidden fields are never indexed, so
+ * typing a guess cannot confirm a secret.
+ */
+function indexEntry(entry: SearchableEntry): IndexedField[] {
+  const visibleFields = (entry.fields ?? []).flatMap((field) =>
+    field.type === "hidden" ? [field.label] : [field.label, field.value],
+  );
+  return [
+    indexField(FIELD_WEIGHTS.label, [entry.label]),
+    indexField(FIELD_WEIGHTS.domain, [entry.domain]),
+    indexField(FIELD_WEIGHTS.tags, entry.tags ?? []),
+    indexField(FIELD_WEIGHTS.username, [entry.username]),
+    indexField(FIELD_WEIGHTS.url, [entry.url]),
+    indexField(FIELD_WEIGHTS.folder, [entry.folder]),
+    indexField(FIELD_WEIGHTS.fields, visibleFields),
+    indexField(FIELD_WEIGHTS.notes, [entry.notes]),
+    indexField(FIELD_WEIGHTS.other, [
+      entry.template ? getEntryTemplate(entry.template).label : undefined,
+      ...(entry.attachments ?? []).map((attachment) => attachment.name),
+    ]),
+  ].filter((field): field is IndexedField => field !== null);
+}
+
+/** Optimal string alignment distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+  return row[b.length];
+}
+
+function isFuzzyMatch(term: string, token: string): boolean {
+  if (term.length < 3) {
+    return false;
+  }
+  const allowed = term.length >= 8 ? 2 : 1;
+  // Compare against the token's prefix too, so "gitbu" still finds "github.com".
+  const prefix = token.slice(0, term.length);
+  return (
+    editDistance(term, token, allowed) <= allowed || editDistance(term, prefix, allowed) <= allowed
+  );
+}
+
+function matchQuality(term: string, field: IndexedField): number {
+  let best = 0;
+  for (const token of field.tokens) {
+    if (token === term) {
+      return EXACT;
+    }
+    if (token.startsWith(term)) {
+      best = Math.max(best, PREFIX);
+    } else if (best < FUZZY && isFuzzyMatch(term, token)) {
+      best = FUZZY;
+    }
+  }
+  if (best < SUBSTRING && field.text.includes(term)) {
+    best = SUBSTRING;
+  }
+  return best;
+}
+
+/**
+ * Builds an in-memory index over the decrypted entries. Every query term has
+ * to match some field; an entry scores the best weighted match of each term.
+ */
+export function buildSearchIndex<T extends SearchableEntry>(entries: T[]): SearchIndex<T> {
+  const indexed = entries.map((entry, order) => ({ entry, order, fields: indexEntry(entry) }));
+
+  const search = (query: string): T[] => {
+    const terms = tokenize(normalize(query));
+    if (terms.length === 0) {
+      return entries;
+    }
+    const results: Array<{ entry: T; score: number; order: number }> = [];
+    indexed.forEach(({ entry, order, fields }) => {
+      let score = 0;
+      for (const term of terms) {
+        const termScore = fields.reduce(
+          (best, field) => Math.max(best, field.weight * matchQuality(term, field)),
+          0,
+        );
+        if (termScore === 0) {
+          return;
+        }
+        score += termScore;
+      }
+      results.push({ entry, score, order });
+    });
+    return results
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .map((result) => result.entry);
+  };
+
+  return { search };
+}
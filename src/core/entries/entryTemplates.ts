@@ -0,0 +1,207 @@
+import type { CustomField, CustomFieldType, EntryTemplateId } from "../crypto/cryptoClient";
+
+export interface TemplateField {
+  label: string;
+  type: CustomFieldType;
+}
+
+export interface EntryTemplate {
+  id: EntryTemplateId;
+  label: string;
+  /** How the entry's username/password pair is used; "none" hides it from the editor. */
+  credentials: "required" | "optional" | "none";
+  usernameLabel: string;
+  passwordLabel: string;
+  fields: TemplateField[];
+  /** Secure notes: the notes are the entry's content and are rendered as Markdown. */
+  noteIsContent?: boolean;
+}
+
+export const ENTRY_TEMPLATES: EntryTemplate[] = [
+  {
+    id: "login",
+    label: "Login",
+    credentials: "required",
+    usernameLabel: "Username",
+    passwordLabel: "Password",
+    fields: [],
+  },
+  {
+    id: "secure-note",
+    label: "Secure note",
+    credentials: "none",
+    usernameLabel: "Username",
+    passwordLabel: "Password",
+    fields: [],
+    noteIsContent: true,
+  },
+  {
+    id: "credit-card",
+    label: "Credit card",
+    credentials: "none",
+    usernameLabel: "Username",
+    passwordLabel: "Password",
+    fields: [
+      { label: "Cardholder", type: "text" },
+      { label: "Card number", type: "hidden" },
+      { label: "Expiry (MM/YY)", type: "text" },
+      { label: "Security code", type: "hidden" },
+      { label: "PIN", type: "hidden" },
+    ],
+  },
+  {
+    id: "bank-account",
+    label: "Bank account",
+    credentials: "optional",
+    usernameLabel: "Online banking user",
+    passwordLabel: "Online banking password",
+    fields: [
+      { label: "Account holder", type: "text" },
+      { label: "IBAN / account number", type: "text" },
+      { label: "BIC / routing number", type: "text" },
+      { label: "PIN", type: "hidden" },
+    ],
+  },
+  {
+    id: "ssh-key",
+    label: "SSH key",
+    credentials: "optional",
+    usernameLabel: "User",
+    passwordLabel: "Passphrase",
+    fields: [
+      { label: "Host", type: "text" },
+      { label: "Public key", type: "text" },
+      { label: "Private key", type: "hidden" },
+    ],
+  },
+  {
+    id: "wifi",
+    label: "Wi-Fi",
+    credentials: "required",
+    usernameLabel: "Network name (SSID)",
+    passwordLabel: "Wi-Fi password",
+    fields: [{ label: "Security", type: "text" }],
+  },
+  {
+    id: "software-license",
+    label: "Software license",
+    credentials: "none",
+    usernameLabel: "Username",
+    passwordLabel: "Password",
+    fields: [
+      { label: "License key", type: "hidden" },
+      { label: "Licensed to", type: "text" },
+      { label: "Registered email", type: "email" },
+      { label: "Purchase date", type: "date" },
+      { label: "Seats", type: "number" },
+      { label: "Download page", type: "url" },
+    ],
+  },
+  {
+    id: "identity",
+    label: "Identity",
+    credentials: "none",
+    usernameLabel: "Username",
+    passwordLabel: "Password",
+    fields: [
+      { label: "Full name", type: "text" },
+      { label: "Email", type: "email" },
+      { label: "Phone", type: "text" },
+      { label: "Date of birth", type: "date" },
+      { label: "Address", type: "text" },
+      { label: "Passport number", type: "hidden" },
+    ],
+  },
+];
+
+export const CUSTOM_FIELD_TYPES: Array<{ type: CustomFieldType; label: string }> = [
+  { type: "text", label: "Text" },
+  { type: "hidden", label: "Hidden" },
+  { type: "url", label: "URL" },
+  { type: "email", label: "Email" },
+  { type: "date", label: "Date" },
+  { type: "number", label: "Number" },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date.parse accepts 2024-02-30, so the value has to survive a round trip.
+function isCalendarDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+export function getEntryTemplate(id?: EntryTemplateId): EntryTemplate {
+  return ENTRY_TEMPLATES.find((template) => template.id === id) ?? ENTRY_TEMPLATES[0];
+}
+
+export function createCustomField(label = "", type: CustomFieldType = "text"): CustomField {
+  return {
+    id: globalThis.crypto.randomUUID(),
+    label,
+    type,
+    value: "",
+  };
+}
+
+/**
+ * Fields for switching an entry to `template`: filled-in fields are kept,
+ * empty ones not used by the template are dropped, and missing template
+ * fields are appended empty.
+ */
+export function applyTemplateFields(template: EntryTemplate, fields: CustomField[]): CustomField[] {
+  const templateLabels = new Set(template.fields.map((field) => field.label));
+  const kept = fields.filter((field) => field.value.trim() || templateLabels.has(field.label));
+  const missing = template.fields
+    .filter((field) => !kept.some((existing) => existing.label === field.label))
+    .map((field) => createCustomField(field.label, field.type));
+  return [...kept, ...missing];
+}
+
+/** Web links for URL fields; anything but http(s) is not rendered as a link. */
+export function customFieldHref(value: string): string | null {
+  try {
+    const url = new URL(value.includes("://") ? value : `https://${value}`);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Returns a user-facing message for invalid values, or null. Empty values are always allowed. */
+export function validateCustomField(field: CustomField): string | null {
+  const value = field.value.trim();
+  if (!value) {
+    return null;
+  }
+  if (!field.label.trim()) {
+    return "Custom fields need a name.";
+  }
+  switch (field.type) {
+    case "url":
+      return customFieldHref(value) ? null : `${field.label}: enter a valid web address.`;
+    case "email":
+      return EMAIL_PATTERN.test(value) ? null : `${field.label}: enter a valid email address.`;
+    case "date":
+      return isCalendarDate(value) ? null : `${field.label}: enter a date as YYYY-MM-DD.`;
+    case "number":
+      return Number.isFinite(Number(value)) ? null : `${field.label}: enter a number.`;
+    default:
+      return null;
+  }
+}
+
+/** Trims labels and values (hidden values are kept verbatim) and drops empty fields. */
+export function normalizeCustomFields(fields: CustomField[]): CustomField[] {
+  return fields
+    .map((field) => ({
+      ...field,
+      label: field.label.trim(),
+      value: field.type === "hidden" ? field.value : field.value.trim(),
+    }))
+    .filter((field) => field.value.trim());
+}
@@ -0,0 +1,378 @@
+import type { CustomField, TotpConfig, VaultEntry } from "../crypto/cryptoClient";
+import { normalizeFolderPath } from "../entries/entryOrganization";
+import { createCustomField } from "../entries/entryTemplates";
+import { parseTotpInput } from "../otp/totp";
+import { normalizeHost } from "../utils/url";
+import { parseCsv } from "./csv";
+
+export type ImportSource =
+  | "bitwarden-csv"
+  | "bitwarden-json"
+  | "1password"
+  | "lastpass"
+  | "keepass"
+  | "chrome";
+
+export interface ImportedCredential {
+  label: string;
+  username: string;
+  password: string;
+  url?: string;
+  notes?: string;
+  totp?: TotpConfig;
+  fields?: CustomField[];
+  folder?: string;
+  favorite?: boolean;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  credentials: ImportedCredential[];
+  skipped: number;
+}
+
+export type DuplicateKind = "exact" | "same-login";
+
+export interface ImportPreviewItem {
+  key: string;
+  credential: ImportedCredential;
+  domain?: string;
+  duplicate?: {
+    kind: DuplicateKind;
+    /** Existing vault entry, or undefined when the duplicate is earlier in the same file. */
+    entryId?: string;
+  };
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  "bitwarden-csv": "Bitwarden (CSV)",
+  "bitwarden-json": "Bitwarden (JSON)",
+  "1password": "1Password (CSV)",
+  lastpass: "LastPass (CSV)",
+  keepass: "KeePass / KeePassXC (CSV)",
+  chrome: "Chrome / Chromium (CSV)",
+};
+
+type CsvField = Exclude<keyof ImportedCredential, "fields" | "folder" | "favorite">;
+
+interface CsvFormat {
+  source: ImportSource;
+  /** Lower-cased headers that must all be present for the format to match. */
+  signature: string[];
+  columns: Record<CsvField, string[]>;
+  /** Rows that are not logins (e.g. secure notes) are skipped. */
+  skipRow?: (row: Record<string, string>) => boolean;
+}
+
+// Ordered from most to least specific header signature.
+const CSV_FORMATS: CsvFormat[] = [
+  {
+    source: "bitwarden-csv",
+    signature: ["login_uri", "login_username", "login_password"],
+    columns: {
+      label: ["name"],
+      username: ["login_username"],
+      password: ["login_password"],
+      url: ["login_uri"],
+      notes: ["notes"],
+      totp: ["login_totp"],
+    },
+    skipRow: (row) => Boolean(row.type) && row.type !== "login",
+  },
+  {
+    source: "lastpass",
+    signature: ["url", "username", "password", "extra", "name", "grouping"],
+    columns: {
+      label: ["name"],
+      username: ["username"],
+      password: ["password"],
+      url: ["url"],
+      notes: ["extra"],
+      totp: ["totp"],
+    },
+    skipRow: (row) => row.url === "http://sn",
+  },
+  {
+    source: "keepass",
+    signature: ["title", "username", "password", "url", "notes", "group"],
+    columns: {
+      label: ["title"],
+      username: ["username"],
+      password: ["password"],
+      url: ["url"],
+      notes: ["notes"],
+      totp: ["totp"],
+    },
+  },
+  {
+    source: "keepass",
+    signature: ["account", "login name", "password", "web site"],
+    columns: {
+      label: ["account"],
+      username: ["login name"],
+      password: ["password"],
+      url: ["web site"],
+      notes: ["comments"],
+      totp: [],
+    },
+  },
+  {
+    source: "1password",
+    signature: ["title", "username", "password"],
+    columns: {
+      label: ["title"],
+      username: ["username"],
+      password: ["password"],
+      url: ["url", "website", "urls"],
+      notes: ["notes", "notesplain"],
+      totp: ["otpauth", "one-time password"],
+    },
+  },
+  {
+    source: "chrome",
+    signature: ["name", "url", "username", "password"],
+    columns: {
+      label: ["name"],
+      username: ["username"],
+      password: ["password"],
+      url: ["url"],
+      notes: ["note", "notes"],
+      totp: [],
+    },
+  },
+];
+
+function pick(row: Record<string, string>, aliases: string[], trim = true): string {
+  for (const alias of aliases) {
+    const value = row[alias];
+    if (value && value.trim()) {
+      return trim ? value.trim() : value;
+    }
+  }
+  return "";
+}
+
+// Unreadable 2FA secrets are dropped rather than failing the whole import.
+function parseImportedTotp(value: string): TotpConfig | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return parseTotpInput(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function importedField(name: string, value: string, hidden: boolean): CustomField {
+  return {
+    ...createCustomField(name.trim() || "Field", hidden ? "hidden" : "text"),
+    value,
+  };
+}
+
+// Bitwarden CSV `fields` column: one `name: value` per line.
+function parseFieldsColumn(value: string): CustomField[] {
+  return value
+    .split(/\r?\n/)
+    .map((line) => {
+      const separator = line.indexOf(": ");
+      return separator > 0
+        ? importedField(line.slice(0, separator), line.slice(separator + 2), false)
+        : null;
+    })
+    .filter((field): field is CustomField => field !== null && field.value !== "");
+}
+
+function toCredential(fields: {
+  label: string;
+  username: string;
+  password: string;
+  url: string;
+  notes: string;
+  totp: string;
+  customFields?: CustomField[];
+  folder?: string;
+  favorite?: boolean;
+}): ImportedCredential | null {
+  if (!fields.password && !fields.username) {
+    return null;
+  }
+  return {
+    label: fields.label || normalizeHost(fields.url) || fields.username || "Imported entry",
+    username: fields.username,
+    password: fields.password,
+    url: fields.url || undefined,
+    notes: fields.notes || undefined,
+    totp: parseImportedTotp(fields.totp),
+    fields: fields.customFields?.length ? fields.customFields : undefined,
+    folder: fields.folder ? normalizeFolderPath(fields.folder) : undefined,
+    favorite: fields.favorite || undefined,
+  };
+}
+
+function parseCsvExport(text: string): ParsedImport {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error("The file is empty.");
+  }
+  const headers = header.map((name) => name.trim().toLowerCase());
+  const format = CSV_FORMATS.find((candidate) =>
+    candidate.signature.every((column) => headers.includes(column)),
+  );
+  if (!format) {
+    throw new Error("Unrecognized CSV export. Supported: Bitwarden, 1Password, LastPass, KeePass, Chrome.");
+  }
+
+  const credentials: ImportedCredential[] = [];
+  let skipped = 0;
+  rows.forEach((cells) => {
+    const row: Record<string, string> = {};
+    headers.forEach((name, index) => {
+      row[name] = cells[index] ?? "";
+    });
+    if (format.skipRow?.(row)) {
+      skipped += 1;
+      return;
+    }
+    const credential = toCredential({
+      label: pick(row, format.columns.label),
+      username: pick(row, format.columns.username),
+      // Passwords are taken verbatim; surrounding spaces can be significant.
+      password: pick(row, format.columns.password, false),
+      url: pick(row, format.columns.url),
+      notes: pick(row, format.columns.notes),
+      totp: pick(row, format.columns.totp),
+      customFields: format.source === "bitwarden-csv" ? parseFieldsColumn(row.fields ?? "") : undefined,
+      folder: format.source === "bitwarden-csv" ? row.folder : undefined,
+      favorite: format.source === "bitwarden-csv" && row.favorite === "1",
+    });
+    if (credential) {
+      credentials.push(credential);
+    } else {
+      skipped += 1;
+    }
+  });
+  return { source: format.source, credentials, skipped };
+}
+
+interface BitwardenJsonItem {
+  type?: number;
+  name?: string;
+  folderId?: string | null;
+  favorite?: boolean;
+  notes?: string | null;
+  fields?: Array<{ name?: string | null; value?: string | null; type?: number }> | null;
+  login?: {
+    username?: string | null;
+    password?: string | null;
+    uris?: Array<{ uri?: string | null }> | null;
+    totp?: string | null;
+  } | null;
+}
+
+interface BitwardenJsonExport {
+  encrypted?: boolean;
+  folders?: Array<{ id?: string; name?: string }>;
+  items?: BitwardenJsonItem[];
+}
+
+function parseBitwardenJson(data: BitwardenJsonExport): ParsedImport {
+  if (data.encrypted) {
+    throw new Error("Encrypted Bitwarden exports are not supported. Export as unencrypted JSON.");
+  }
+  const folderNames = new Map<string, string>();
+  (data.folders ?? []).forEach((folder) => {
+    if (folder.id && folder.name) {
+      folderNames.set(folder.id, folder.name);
+    }
+  });
+  const credentials: ImportedCredential[] = [];
+  let skipped = 0;
+  (data.items ?? []).forEach((item) => {
+    // Bitwarden item type 1 is a login.
+    if (item.type !== 1 || !item.login) {
+      skipped += 1;
+      return;
+    }
+    const credential = toCredential({
+      label: item.name?.trim() ?? "",
+      username: item.login.username?.trim() ?? "",
+      password: item.login.password ?? "",
+      url: item.login.uris?.find((uri) => uri.uri)?.uri?.trim() ?? "",
+      notes: item.notes?.trim() ?? "",
+      totp: item.login.totp?.trim() ?? "",
+      // Bitwarden field types: 0 = text, 1 = hidden; booleans and linked fields are skipped.
+      customFields: (item.fields ?? [])
+        .filter((field) => (field.type === 0 || field.type === 1) && field.value)
+        .map((field) => importedField(field.name ?? "", field.value ?? "", field.type === 1)),
+      folder: item.folderId ? folderNames.get(item.folderId) : undefined,
+      favorite: item.favorite === true,
+    });
+    if (credential) {
+      credentials.push(credential);
+    } else {
+      skipped += 1;
+    }
+  });
+  return { source: "bitwarden-json", credentials, skipped };
+}
+
+/** Detects the exporter from the file content and maps its rows onto vault fields. */
+export function parseCredentialExport(text: string): ParsedImport {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("JSON export could not be parsed.");
+    }
+    if (typeof data === "object" && data !== null && Array.isArray((data as { items?: unknown }).items)) {
+      return parseBitwardenJson(data as BitwardenJsonExport);
+    }
+    throw new Error("Unrecognized JSON export. Only Bitwarden JSON is supported.");
+  }
+  return parseCsvExport(text);
+}
+
+function loginKey(domain: string | undefined, username: string): string {
+  return `${domain ?? ""}\u0000${username.toLowerCase()}`;
+}
+
+/**
+ * Flags rows that already exist in the vault (or earlier in the file): same
+ * domain and username is a `same-login` duplicate, identical password too is `exact`.
+ */
+export function buildImportPreview(
+  credentials: ImportedCredential[],
+  existing: VaultEntry[],
+): ImportPreviewItem[] {
+  const known = new Map<string, { password: string; entryId?: string }[]>();
+  const remember = (key: string, password: string, entryId?: string) => {
+    known.set(key, [...(known.get(key) ?? []), { password, entryId }]);
+  };
+  existing.forEach((entry) => {
+    const domain = entry.domain ?? (entry.url ? normalizeHost(entry.url) ?? undefined : undefined);
+    remember(loginKey(domain, entry.username), entry.password, entry.id);
+  });
+
+  return credentials.map((credential, index) => {
+    const domain = credential.url ? normalizeHost(credential.url) ?? undefined : undefined;
+    const key = loginKey(domain, credential.username);
+    const matches = known.get(key) ?? [];
+    const exact = matches.find((match) => match.password === credential.password);
+    const duplicate = exact
+      ? { kind: "exact" as const, entryId: exact.entryId }
+      : matches.length > 0
+      ? { kind: "same-login" as const, entryId: matches[0].entryId }
+      : undefined;
+    remember(key, credential.password);
+    return {
+      key: `${index}`,
+      credential,
+      domain,
+      duplicate,
+    };
+  });
+}
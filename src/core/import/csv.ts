@@ -0,0 +1,67 @@
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, embedded newlines,
+ * CRLF line endings and a leading BOM. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      pushRow();
+    } else if (char === "\r") {
+      if (input[i + 1] === "\n") {
+        i += 1;
+      }
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error("CSV ends inside a quoted field.");
+  }
+  if (field !== "" || row.length > 0) {
+    pushRow();
+  }
+  return rows;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function stringifyCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
@@ -0,0 +1,110 @@
+import type { VaultEntry } from "../crypto/cryptoClient";
+import { buildOtpauthUri } from "../otp/totp";
+import { stringifyCsv } from "./csv";
+
+export type PlaintextExportFormat = "csv" | "json";
+
+const BITWARDEN_CSV_HEADER = [
+  "folder",
+  "favorite",
+  "type",
+  "name",
+  "notes",
+  "fields",
+  "reprompt",
+  "login_uri",
+  "login_username",
+  "login_password",
+  "login_totp",
+];
+
+function entryUri(entry: VaultEntry): string {
+  return entry.url ?? entry.domain ?? "";
+}
+
+// Bitwarden's CSV packs custom fields as one `name: value` line each.
+function entryFieldsCsv(entry: VaultEntry): string {
+  return (entry.fields ?? []).map((field) => `${field.label}: ${field.value}`).join("\n");
+}
+
+function isSecureNote(entry: VaultEntry): boolean {
+  return entry.template === "secure-note";
+}
+
+function entryTotp(entry: VaultEntry): string {
+  return entry.totp ? buildOtpauthUri(entry.totp) : "";
+}
+
+// Bitwarden nests folders by `/` in the name, the same separator entries use.
+function bitwardenFolders(entries: VaultEntry[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  entries.forEach((entry) => {
+    if (entry.folder && !ids.has(entry.folder)) {
+      ids.set(entry.folder, `folder-${ids.size + 1}`);
+    }
+  });
+  return ids;
+}
+
+/** Bitwarden's unencrypted CSV layout, so the file imports into most managers. */
+export function buildBitwardenCsv(entries: VaultEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.folder ?? "",
+    entry.favorite ? "1" : "",
+    isSecureNote(entry) ? "note" : "login",
+    entry.label,
+    entry.notes ?? "",
+    entryFieldsCsv(entry),
+    "0",
+    entryUri(entry),
+    entry.username,
+    entry.password,
+    entryTotp(entry),
+  ]);
+  return stringifyCsv([BITWARDEN_CSV_HEADER, ...rows]);
+}
+
+/** Bitwarden's unencrypted JSON layout (`encrypted: false`, login and secure-note items). */
+export function buildBitwardenJson(entries: VaultEntry[]): string {
+  const folderIds = bitwardenFolders(entries);
+  return JSON.stringify(
+    {
+      encrypted: false,
+      folders: Array.from(folderIds, ([name, id]) => ({ id, name })),
+      items: entries.map((entry) => ({
+        id: entry.id,
+        organizationId: null,
+        folderId: (entry.folder && folderIds.get(entry.folder)) ?? null,
+        // Bitwarden item types: 1 = login, 2 = secure note.
+        type: isSecureNote(entry) ? 2 : 1,
+        reprompt: 0,
+        name: entry.label,
+        notes: entry.notes ?? null,
+        favorite: Boolean(entry.favorite),
+        // Bitwarden field types: 0 = text, 1 = hidden.
+        fields: (entry.fields ?? []).map((field) => ({
+          name: field.label,
+          value: field.value,
+          type: field.type === "hidden" ? 1 : 0,
+        })),
+        secureNote: isSecureNote(entry) ? { type: 0 } : null,
+        login: isSecureNote(entry) ? null : {
+          uris: entryUri(entry) ? [{ match: null, uri: entryUri(entry) }] : [],
+          username: entry.username || null,
+          password: entry.password || null,
+          totp: entryTotp(entry) || null,
+        },
+        collectionIds: null,
+        creationDate: new Date(entry.createdAt).toISOString(),
+        revisionDate: new Date(entry.updatedAt).toISOString(),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+export function plaintextExportFilename(format: PlaintextExportFormat, exportedAt: number): string {
+  const day = new Date(exportedAt).toISOString().slice(0, 10);
+  return `vaultlight-plaintext-${day}.${format}`;
+}
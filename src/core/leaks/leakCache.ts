@@ -0,0 +1,108 @@
+import {
+  decryptCache,
+  encryptCache,
+  type PasswordExposure,
+  type VaultKeyring,
+} from "../crypto/cryptoClient";
+import { loadLeakCache, saveLeakCache } from "../storage/vaultStorage";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Cached results are used without asking the network for this long. */
+export const LEAK_CACHE_TTL_MS = 24 * HOUR_MS;
+/** Older results still stand in when every lookup fails, up to this age. */
+export const LEAK_CACHE_STALE_MS = 7 * 24 * HOUR_MS;
+
+const CACHE_NAME = "leaks";
+const SAVE_DELAY_MS = 2_000;
+
+interface CachedExposure {
+  exposure: PasswordExposure;
+  cachedAt: number;
+}
+
+/** SHA-1 prefix, then suffix, the same split the k-anonymity lookups use. */
+type LeakCacheRecord = Record<string, Record<string, CachedExposure>>;
+
+// Only populated while the vault is unlocked; at rest the cache is encrypted under the data key.
+let cache: LeakCacheRecord = {};
+let cacheKeyring: VaultKeyring | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function prune(record: LeakCacheRecord, now: number): LeakCacheRecord {
+  const pruned: LeakCacheRecord = {};
+  Object.keys(record).forEach((prefix) => {
+    Object.keys(record[prefix]).forEach((suffix) => {
+      const cached = record[prefix][suffix];
+      if (now - cached.cachedAt < LEAK_CACHE_STALE_MS) {
+        pruned[prefix] = { ...pruned[prefix], [suffix]: cached };
+      }
+    });
+  });
+  return pruned;
+}
+
+async function persist(keyring: VaultKeyring, record: LeakCacheRecord) {
+  try {
+    await saveLeakCache(await encryptCache(keyring, CACHE_NAME, prune(record, Date.now())));
+  } catch (error) {
+    console.error("Vaultlight leak cache: unable to persist.", error);
+  }
+}
+
+/** Loads the stored cache for an unlocked vault. An unreadable cache is started afresh. */
+export async function openLeakCache(keyring: VaultKeyring): Promise<void> {
+  cacheKeyring = keyring;
+  cache = {};
+  try {
+    const stored = await loadLeakCache();
+    const record = stored ? await decryptCache<LeakCacheRecord>(keyring, CACHE_NAME, stored) : {};
+    // The vault may have locked while the cache was being read.
+    if (cacheKeyring === keyring) {
+      cache = { ...prune(record, Date.now()), ...cache };
+    }
+  } catch (error) {
+    console.warn("Vaultlight leak cache: stored cache unreadable, starting empty.", error);
+  }
+}
+
+/** Writes pending changes and forgets the cache; call when the vault locks. */
+export function closeLeakCache() {
+  if (saveTimer && cacheKeyring) {
+    clearTimeout(saveTimer);
+    void persist(cacheKeyring, cache);
+  }
+  saveTimer = null;
+  cacheKeyring = null;
+  cache = {};
+}
+
+export function getCachedExposure(
+  sha1Prefix: string,
+  sha1Suffix: string,
+  maxAgeMs: number,
+  now = Date.now(),
+): PasswordExposure | null {
+  const cached = cache[sha1Prefix]?.[sha1Suffix];
+  return cached && now - cached.cachedAt < maxAgeMs ? cached.exposure : null;
+}
+
+/** Remembers a result; writes are batched so a scan does not re-encrypt the cache per password. */
+export function cacheExposure(sha1Prefix: string, sha1Suffix: string, exposure: PasswordExposure) {
+  if (!cacheKeyring) {
+    return;
+  }
+  cache[sha1Prefix] = {
+    ...cache[sha1Prefix],
+    [sha1Suffix]: { exposure, cachedAt: Date.now() },
+  };
+  if (!saveTimer) {
+    const keyring = cacheKeyring;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      if (cacheKeyring === keyring) {
+        void persist(keyring, cache);
+      }
+    }, SAVE_DELAY_MS);
+  }
+}
@@ -3,6 +3,12 @@ import type {
   PasswordExposure,
 } from "../crypto/cryptoClient";
 import { DARK_WEB_SAMPLE } from "./darkWebSample";
+import {
+  LEAK_CACHE_STALE_MS,
+  LEAK_CACHE_TTL_MS,
+  cacheExposure,
+  getCachedExposure,
+} from "./leakCache";
 
 const textEncoder = new TextEncoder();
 let leakBackendWarningLogged = false;
@@ -17,7 +23,7 @@ function ensureCrypto(): Crypto {
   throw new Error("Web Crypto API is not available.");
 }
 
-async function digestHex(text: string, algorithm: "SHA-1" | "SHA-256"): Promise<string> {
+export async function digestHex(text: string, algorithm: "SHA-1" | "SHA-256"): Promise<string> {
   const crypto = ensureCrypto();
   const buffer = textEncoder.encode(text);
   const hash = await crypto.subtle.digest(algorithm, buffer);
@@ -77,12 +83,60 @@ async function checkDarkWebSample(password: string): Promise<ExposureSource | nu
   };
 }
 
-async function requestBackendExposure(password: string): Promise<PasswordExposure> {
+interface PasswordHashes {
+  sha1Prefix: string;
+  sha1Suffix: string;
+  sha256Hash: string;
+}
+
+async function hashPassword(password: string): Promise<PasswordHashes> {
   const sha1Hash = (await digestHex(password, "SHA-1")).toUpperCase();
-  const sha1Prefix = sha1Hash.slice(0, 5);
-  const sha1Suffix = sha1Hash.slice(5);
-  const sha256Hash = await digestHex(password, "SHA-256");
+  return {
+    sha1Prefix: sha1Hash.slice(0, 5),
+    sha1Suffix: sha1Hash.slice(5),
+    sha256Hash: await digestHex(password, "SHA-256"),
+  };
+}
 
+export interface LeakCheckOptions {
+  /** Skips fresh cached results, e.g. for a recheck the user asked for. */
+  bypassCache?: boolean;
+}
+
+/**
+ * Serves fresh cached results without a lookup, caches clean results, and
+ * falls back to a stale cached result when the lookup fails or reports errors.
+ */
+async function withLeakCache(
+  { sha1Prefix, sha1Suffix }: PasswordHashes,
+  lookup: () => Promise<PasswordExposure>,
+  { bypassCache = false }: LeakCheckOptions = {},
+): Promise<PasswordExposure> {
+  const fresh = bypassCache ? null : getCachedExposure(sha1Prefix, sha1Suffix, LEAK_CACHE_TTL_MS);
+  if (fresh) {
+    return fresh;
+  }
+  let exposure: PasswordExposure;
+  try {
+    exposure = await lookup();
+  } catch (error) {
+    const stale = getCachedExposure(sha1Prefix, sha1Suffix, LEAK_CACHE_STALE_MS);
+    if (stale) {
+      return stale;
+    }
+    throw error;
+  }
+  if (exposure.errors?.length) {
+    return getCachedExposure(sha1Prefix, sha1Suffix, LEAK_CACHE_STALE_MS) ?? exposure;
+  }
+  cacheExposure(sha1Prefix, sha1Suffix, exposure);
+  return exposure;
+}
+
+async function fetchBackendExposure(
+  { sha1Prefix, sha1Suffix, sha256Hash }: PasswordHashes,
+  passwordLength: number,
+): Promise<PasswordExposure> {
   const response = await fetch("/api/leaks/check", {
     method: "POST",
     headers: {
@@ -92,7 +146,7 @@ async function requestBackendExposure(password: string): Promise<PasswordExposur
       sha1Prefix,
       sha1Suffix,
       sha256Hash,
-      passwordLength: password.length,
+      passwordLength,
     }),
   });
 
@@ -150,15 +204,28 @@ async function fallbackExposure(password: string, upstreamError?: string): Promi
   };
 }
 
-export async function checkPasswordAgainstLeaks(password: string): Promise<PasswordExposure> {
-  try {
-    return await requestBackendExposure(password);
-  } catch (error) {
-    if (!leakBackendWarningLogged) {
-      console.warn("Vaultlight leak backend unreachable, using fallback.", error);
-      leakBackendWarningLogged = true;
+/** Asks `/api/leaks/check` only (through the local cache); throws instead of falling back. */
+export async function requestBackendExposure(password: string): Promise<PasswordExposure> {
+  const hashes = await hashPassword(password);
+  return withLeakCache(hashes, () => fetchBackendExposure(hashes, password.length));
+}
+
+export async function checkPasswordAgainstLeaks(
+  password: string,
+  options: LeakCheckOptions = {},
+): Promise<PasswordExposure> {
+  const hashes = await hashPassword(password);
+  const lookup = async () => {
+    try {
+      return await fetchBackendExposure(hashes, password.length);
+    } catch (error) {
+      if (!leakBackendWarningLogged) {
+        console.warn("Vaultlight leak backend unreachable, using fallback.", error);
+        leakBackendWarningLogged = true;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return fallbackExposure(password, errorMessage);
     }
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return fallbackExposure(password, errorMessage);
-  }
+  };
+  return withLeakCache(hashes, lookup, options);
 }
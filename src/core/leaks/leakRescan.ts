@@ -0,0 +1,145 @@
+import type { PasswordExposure, VaultEntry, VaultPayload } from "../crypto/cryptoClient";
+import { digestHex, requestBackendExposure } from "./leakChecker";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Results older than this are checked again by the background scan. */
+export const LEAK_RESCAN_STALE_MS = 7 * 24 * HOUR_MS;
+/** How often the background scan looks for stale results while the vault is unlocked. */
+export const LEAK_RESCAN_INTERVAL_MS = HOUR_MS;
+
+export interface LeakRescanOptions {
+  /** Requests in flight at once. */
+  concurrency?: number;
+  /** Retries per password after the first attempt. */
+  retries?: number;
+  /** Delay before the first retry; doubles with every further one. */
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  check?: (password: string) => Promise<PasswordExposure>;
+}
+
+export interface LeakRescanResult {
+  entryId: string;
+  /** The password that was checked; results for entries changed meanwhile are dropped. */
+  password: string;
+  exposure?: PasswordExposure;
+  error?: string;
+}
+
+type CheckOutcome = Pick<LeakRescanResult, "exposure" | "error">;
+
+export function findStaleEntries(
+  entries: VaultEntry[],
+  now = Date.now(),
+  staleMs = LEAK_RESCAN_STALE_MS,
+): VaultEntry[] {
+  return entries.filter(
+    (entry) => entry.password && now - (entry.exposure?.lastChecked ?? 0) > staleMs,
+  );
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeoutId);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+async function checkWithBackoff(
+  password: string,
+  check: (password: string) => Promise<PasswordExposure>,
+  retries: number,
+  retryDelayMs: number,
+  signal?: AbortSignal,
+): Promise<CheckOutcome> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const exposure = await check(password);
+      // Upstream failures such as HIBP rate limiting arrive as errors inside a successful response.
+      if (!exposure.errors?.length || attempt >= retries) {
+        return { exposure };
+      }
+    } catch (error) {
+      if (attempt >= retries) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+    // Jitter keeps parallel workers from retrying in lockstep.
+    await wait(retryDelayMs * Math.pow(2, attempt) * (1 + Math.random() / 2), signal);
+    if (signal?.aborted) {
+      return { error: "Leak scan cancelled." };
+    }
+  }
+}
+
+/**
+ * Checks the passwords of `entries` against `/api/leaks/check`. Entries sharing
+ * a password (same SHA-256) are checked once. Stops early when `signal` aborts.
+ */
+export async function rescanLeaks(
+  entries: VaultEntry[],
+  options: LeakRescanOptions = {},
+): Promise<LeakRescanResult[]> {
+  const {
+    concurrency = 3,
+    retries = 3,
+    retryDelayMs = 2_000,
+    signal,
+    check = requestBackendExposure,
+  } = options;
+
+  const groups = new Map<string, VaultEntry[]>();
+  for (const entry of entries) {
+    const hash = await digestHex(entry.password, "SHA-256");
+    groups.set(hash, [...(groups.get(hash) ?? []), entry]);
+  }
+  const queue = Array.from(groups.values());
+  const results: LeakRescanResult[] = [];
+
+  const worker = async () => {
+    for (let group = queue.shift(); group && !signal?.aborted; group = queue.shift()) {
+      const { password } = group[0];
+      const outcome = await checkWithBackoff(password, check, retries, retryDelayMs, signal);
+      group.forEach((entry) => results.push({ entryId: entry.id, password, ...outcome }));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return results;
+}
+
+/**
+ * Writes scan results into the payload in one pass. `updatedAt` is left alone:
+ * exposure is derived data and should not reorder the list or look like an edit to sync.
+ */
+export function applyLeakRescan(payload: VaultPayload, results: LeakRescanResult[]): VaultPayload {
+  const byEntry = new Map<string, LeakRescanResult>(
+    results.map((result) => [result.entryId, result]),
+  );
+  return {
+    ...payload,
+    entries: payload.entries.map((entry) => {
+      const result = byEntry.get(entry.id);
+      if (!result || result.password !== entry.password) {
+        return entry;
+      }
+      return {
+        ...entry,
+        exposure: result.exposure ?? {
+          status: "warning",
+          sources: entry.exposure?.sources ?? [],
+          errors: [result.error ?? "Unexpected error during leak check."],
+          // Unchanged, so the next scan tries again instead of waiting for the result to go stale.
+          lastChecked: entry.exposure?.lastChecked ?? 0,
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,202 @@
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: "paragraph"; lines: MarkdownInline[][] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "code"; text: string }
+  | { type: "quote"; blocks: MarkdownBlock[] }
+  | { type: "rule" };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const ORDERED = /^\s*\d{1,9}[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+/** Link targets are limited to web and mail links; anything else renders as plain text. */
+export function safeMarkdownHref(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return ["https:", "http:", "mailto:"].includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function pushText(nodes: MarkdownInline[], text: string) {
+  if (!text) {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+
+    if (rest[0] === "\\" && rest.length > 1) {
+      pushText(nodes, rest[1]);
+      index += 2;
+      continue;
+    }
+
+    if (rest[0] === "`") {
+      const end = rest.indexOf("`", 1);
+      if (end > 1) {
+        nodes.push({ type: "code", text: rest.slice(1, end) });
+        index += end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("**") || rest.startsWith("__")) {
+      const marker = rest.slice(0, 2);
+      const end = rest.indexOf(marker, 2);
+      if (end > 2) {
+        nodes.push({ type: "strong", children: parseMarkdownInline(rest.slice(2, end)) });
+        index += end + 2;
+        continue;
+      }
+    }
+
+    if (rest[0] === "*" || rest[0] === "_") {
+      const end = rest.indexOf(rest[0], 1);
+      if (end > 1 && rest[1] !== " ") {
+        nodes.push({ type: "em", children: parseMarkdownInline(rest.slice(1, end)) });
+        index += end + 1;
+        continue;
+      }
+    }
+
+    if (rest[0] === "[") {
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest);
+      if (link) {
+        const href = safeMarkdownHref(link[2]);
+        const children = parseMarkdownInline(link[1]);
+        if (href) {
+          nodes.push({ type: "link", href, children });
+        } else {
+          nodes.push(...children);
+        }
+        index += link[0].length;
+        continue;
+      }
+    }
+
+    const autolink = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/.exec(rest);
+    if (autolink && !/[\w/]$/.test(text.slice(0, index))) {
+      const href = safeMarkdownHref(autolink[0]);
+      if (href) {
+        nodes.push({ type: "link", href, children: [{ type: "text", text: autolink[0] }] });
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    pushText(nodes, rest[0]);
+    index += 1;
+  }
+  return nodes;
+}
+
+/**
+ * Parses the Markdown subset used for secure notes into a tree the UI renders
+ * as elements. Raw HTML is never interpreted; it stays visible as text.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trimStart().startsWith(fence[1])) {
+        body.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ type: "code", text: body.join("\n") });
+      index += 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseMarkdownInline(heading[2]),
+      });
+      index += 1;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      index += 1;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(QUOTE.exec(lines[index])![1]);
+        index += 1;
+      }
+      blocks.push({ type: "quote", blocks: parseMarkdown(quoted.join("\n")) });
+      continue;
+    }
+
+    const listPattern = BULLET.test(line) ? BULLET : ORDERED.test(line) ? ORDERED : null;
+    if (listPattern) {
+      const items: MarkdownInline[][] = [];
+      while (index < lines.length && listPattern.test(lines[index])) {
+        items.push(parseMarkdownInline(listPattern.exec(lines[index])![1]));
+        index += 1;
+      }
+      blocks.push({ type: "list", ordered: listPattern === ORDERED, items });
+      continue;
+    }
+
+    const paragraph: MarkdownInline[][] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !FENCE.test(lines[index]) &&
+      !HEADING.test(lines[index]) &&
+      !RULE.test(lines[index]) &&
+      !QUOTE.test(lines[index]) &&
+      !BULLET.test(lines[index]) &&
+      !ORDERED.test(lines[index])
+    ) {
+      paragraph.push(parseMarkdownInline(lines[index].trim()));
+      index += 1;
+    }
+    blocks.push({ type: "paragraph", lines: paragraph });
+  }
+
+  return blocks;
+}
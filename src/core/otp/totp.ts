@@ -0,0 +1,172 @@
+import type { TotpAlgorithm, TotpConfig } from "../crypto/cryptoClient";
+
+// RFC 4648 base32, the alphabet authenticator apps use for shared secrets.
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const ALGORITHMS: TotpAlgorithm[] = ["SHA1", "SHA256", "SHA512"];
+const WEB_CRYPTO_HASH: Record<TotpAlgorithm, string> = {
+  SHA1: "SHA-1",
+  SHA256: "SHA-256",
+  SHA512: "SHA-512",
+};
+
+export const TOTP_DEFAULTS = {
+  digits: 6,
+  period: 30,
+  algorithm: "SHA1" as TotpAlgorithm,
+};
+
+export interface TotpCode {
+  code: string;
+  /** Milliseconds until the code rotates. */
+  remainingMs: number;
+}
+
+function getSubtle(): SubtleCrypto {
+  if (typeof globalThis.crypto?.subtle?.importKey === "function") {
+    return globalThis.crypto.subtle;
+  }
+  throw new Error("WebCrypto is not available in this environment.");
+}
+
+function normalizeSecret(secret: string): string {
+  return secret.toUpperCase().replace(/[\s-]/g, "").replace(/=+$/, "");
+}
+
+function decodeBase32(secret: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of secret) {
+    const value = ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error("TOTP secret is not valid base32.");
+    }
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function parseSecret(input: string): string {
+  const secret = normalizeSecret(input);
+  if (!secret || decodeBase32(secret).length === 0) {
+    throw new Error("TOTP secret is empty.");
+  }
+  return secret;
+}
+
+function parseAlgorithm(value: string | null): TotpAlgorithm {
+  if (!value) {
+    return TOTP_DEFAULTS.algorithm;
+  }
+  const algorithm = value.toUpperCase().replace("-", "") as TotpAlgorithm;
+  if (!ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported TOTP algorithm: ${value}`);
+  }
+  return algorithm;
+}
+
+function parseInteger(value: string | null, fallback: number, min: number, max: number, name: string): number {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`TOTP ${name} is out of range.`);
+  }
+  return parsed;
+}
+
+/** Parses an `otpauth://totp/Issuer:account?secret=...` URI as exported by authenticator apps. */
+export function parseOtpauthUri(uri: string): TotpConfig {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch {
+    throw new Error("otpauth URI could not be parsed.");
+  }
+  if (url.protocol !== "otpauth:") {
+    throw new Error("Not an otpauth URI.");
+  }
+  // WHATWG URL puts the type in `host` for non-special schemes.
+  if (url.host.toLowerCase() !== "totp") {
+    throw new Error("Only time-based (TOTP) codes are supported.");
+  }
+  const label = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+  const separator = label.indexOf(":");
+  const labelIssuer = separator >= 0 ? label.slice(0, separator).trim() : "";
+  const account = (separator >= 0 ? label.slice(separator + 1) : label).trim();
+  const issuer = url.searchParams.get("issuer")?.trim() || labelIssuer;
+
+  return {
+    secret: parseSecret(url.searchParams.get("secret") ?? ""),
+    digits: parseInteger(url.searchParams.get("digits"), TOTP_DEFAULTS.digits, 6, 8, "digits"),
+    period: parseInteger(url.searchParams.get("period"), TOTP_DEFAULTS.period, 1, 300, "period"),
+    algorithm: parseAlgorithm(url.searchParams.get("algorithm")),
+    issuer: issuer || undefined,
+    account: account || undefined,
+  };
+}
+
+/** Accepts either an otpauth URI or a bare base32 secret (default parameters). */
+export function parseTotpInput(input: string): TotpConfig {
+  const trimmed = input.trim();
+  if (/^otpauth:/i.test(trimmed)) {
+    return parseOtpauthUri(trimmed);
+  }
+  return {
+    secret: parseSecret(trimmed),
+    digits: TOTP_DEFAULTS.digits,
+    period: TOTP_DEFAULTS.period,
+    algorithm: TOTP_DEFAULTS.algorithm,
+  };
+}
+
+export function buildOtpauthUri(config: TotpConfig): string {
+  const label = [config.issuer, config.account].filter(Boolean).join(":") || "Vaultlight";
+  const params = new URLSearchParams({
+    secret: config.secret,
+    digits: `${config.digits}`,
+    period: `${config.period}`,
+    algorithm: config.algorithm,
+  });
+  if (config.issuer) {
+    params.set("issuer", config.issuer);
+  }
+  return `otpauth://totp/${encodeURIComponent(label)}?${params.toString()}`;
+}
+
+/** RFC 6238 code for `now` (HMAC over the time-step counter, RFC 4226 truncation). */
+export async function generateTotp(config: TotpConfig, now = Date.now()): Promise<TotpCode> {
+  const periodMs = config.period * 1000;
+  const counter = Math.floor(now / periodMs);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const subtle = getSubtle();
+  const key = await subtle.importKey(
+    "raw",
+    decodeBase32(normalizeSecret(config.secret)),
+    { name: "HMAC", hash: WEB_CRYPTO_HASH[config.algorithm] },
+    false,
+    ["sign"],
+  );
+  const hmac = new Uint8Array(await subtle.sign("HMAC", key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  const code = `${binary % 10 ** config.digits}`.padStart(config.digits, "0");
+
+  return {
+    code,
+    remainingMs: periodMs - (now % periodMs),
+  };
+}
@@ -0,0 +1,156 @@
+import type { PasskeySlotInfo } from "../crypto/cryptoClient";
+
+// WebAuthn PRF extension shapes; the bundled DOM typings do not include them yet.
+interface PrfValues {
+  first: BufferSource;
+}
+
+interface PrfClientInputs {
+  prf: {
+    eval?: PrfValues;
+    evalByCredential?: Record<string, PrfValues>;
+  };
+}
+
+interface PrfClientOutputs {
+  prf?: {
+    enabled?: boolean;
+    results?: { first?: ArrayBuffer };
+  };
+}
+
+const PRF_SALT_BYTES = 32;
+const CHALLENGE_BYTES = 32;
+const WEBAUTHN_TIMEOUT_MS = 60_000;
+
+export interface PasskeyRegistration {
+  info: PasskeySlotInfo;
+  /** PRF output, encoded for use as a key-slot secret. */
+  secret: string;
+}
+
+export interface PasskeyAssertion {
+  credentialId: string;
+  secret: string;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toBase64Url(value: ArrayBuffer | Uint8Array): string {
+  const bytes = value instanceof Uint8Array ? value : new Uint8Array(value);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function prfResult(credential: PublicKeyCredential): ArrayBuffer | undefined {
+  return (credential.getClientExtensionResults() as PrfClientOutputs).prf?.results?.first;
+}
+
+/** True when a platform authenticator (Touch ID, Windows Hello, …) can be used on this device. */
+export async function isPasskeyUnlockSupported(): Promise<boolean> {
+  if (typeof window === "undefined" || typeof window.PublicKeyCredential === "undefined") {
+    return false;
+  }
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Asks one of the given passkeys for its PRF output. There is no server to
+ * check the signature: the PRF output itself is the secret, and only the
+ * authenticator holding the credential can produce it.
+ */
+export async function assertPasskey(passkeys: PasskeySlotInfo[]): Promise<PasskeyAssertion> {
+  if (passkeys.length === 0) {
+    throw new Error("No passkey is enrolled for this vault.");
+  }
+  const extensions: PrfClientInputs = {
+    prf: {
+      evalByCredential: Object.fromEntries(
+        passkeys.map((passkey) => [passkey.credentialId, { first: fromBase64Url(passkey.prfSalt) }]),
+      ),
+    },
+  };
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(CHALLENGE_BYTES),
+      allowCredentials: passkeys.map((passkey) => ({
+        type: "public-key",
+        id: fromBase64Url(passkey.credentialId),
+      })),
+      userVerification: "required",
+      timeout: WEBAUTHN_TIMEOUT_MS,
+      extensions: extensions as AuthenticationExtensionsClientInputs,
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error("Passkey request was cancelled.");
+  }
+  const result = prfResult(credential);
+  if (!result) {
+    throw new Error("The passkey did not return a PRF secret.");
+  }
+  return {
+    credentialId: toBase64Url(credential.rawId),
+    secret: toBase64Url(result),
+  };
+}
+
+/** Creates a platform passkey with the PRF extension and returns the secret for its key slot. */
+export async function registerPasskey(label: string): Promise<PasskeyRegistration> {
+  const prfSalt = randomBytes(PRF_SALT_BYTES);
+  const extensions: PrfClientInputs = { prf: { eval: { first: prfSalt } } };
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      rp: { name: "Vaultlight" },
+      user: {
+        id: randomBytes(16),
+        name: label,
+        displayName: label,
+      },
+      challenge: randomBytes(CHALLENGE_BYTES),
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        residentKey: "preferred",
+        userVerification: "required",
+      },
+      timeout: WEBAUTHN_TIMEOUT_MS,
+      extensions: extensions as AuthenticationExtensionsClientInputs,
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error("Passkey creation was cancelled.");
+  }
+  const outputs = credential.getClientExtensionResults() as PrfClientOutputs;
+  const result = prfResult(credential);
+  if (!outputs.prf?.enabled && !result) {
+    throw new Error("This authenticator does not support the WebAuthn PRF extension.");
+  }
+
+  const info: PasskeySlotInfo = {
+    credentialId: toBase64Url(credential.rawId),
+    prfSalt: toBase64Url(prfSalt),
+    label,
+  };
+  // Most authenticators only evaluate the PRF during an assertion, not at creation.
+  const secret = result ? toBase64Url(result) : (await assertPasskey([info])).secret;
+  return { info, secret };
+}
@@ -0,0 +1,93 @@
+import type { PasswordHistoryEntry, VaultEntry } from "../crypto/cryptoClient";
+
+export const PASSWORD_HISTORY_LIMIT = 10;
+
+export interface PasswordReuse {
+  entryId: string;
+  label: string;
+  /** The shared password is one the other entry used before, not its current one. */
+  previous: boolean;
+}
+
+/**
+ * History of `entry` once its password is replaced by `nextPassword`: the old
+ * password goes first, the list is capped at PASSWORD_HISTORY_LIMIT and never
+ * holds the current password.
+ */
+export function recordPasswordChange(
+  entry: VaultEntry,
+  nextPassword: string,
+  now = Date.now(),
+): PasswordHistoryEntry[] | undefined {
+  const kept = (entry.passwordHistory ?? []).filter(
+    (item) => item.password !== nextPassword && item.password !== entry.password,
+  );
+  const history =
+    entry.password && entry.password !== nextPassword
+      ? [{ password: entry.password, changedAt: now }, ...kept]
+      : kept;
+  return history.length > 0 ? history.slice(0, PASSWORD_HISTORY_LIMIT) : undefined;
+}
+
+/** Makes the password replaced at `changedAt` current again; the current one joins the history. */
+export function restorePassword(
+  entry: VaultEntry,
+  changedAt: number,
+  now = Date.now(),
+): VaultEntry {
+  const item = entry.passwordHistory?.find((candidate) => candidate.changedAt === changedAt);
+  if (!item) {
+    throw new Error("This password is no longer in the history.");
+  }
+  return {
+    ...entry,
+    password: item.password,
+    passwordHistory: recordPasswordChange(entry, item.password, now),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Groups the entries sharing a password that at least one of them still uses,
+ * counting previous passwords too. Each group has two or more entries.
+ */
+export function findReusedPasswordGroups(entries: VaultEntry[]): PasswordReuse[][] {
+  const users = new Map<string, PasswordReuse[]>();
+  const addUser = (password: string, reuse: PasswordReuse) => {
+    const existing = users.get(password);
+    if (!existing) {
+      users.set(password, [reuse]);
+    } else if (!existing.some((candidate) => candidate.entryId === reuse.entryId)) {
+      existing.push(reuse);
+    }
+  };
+  entries.forEach((entry) => {
+    if (entry.password) {
+      addUser(entry.password, { entryId: entry.id, label: entry.label, previous: false });
+    }
+  });
+  entries.forEach((entry) => {
+    (entry.passwordHistory ?? []).forEach((item) =>
+      addUser(item.password, { entryId: entry.id, label: entry.label, previous: true }),
+    );
+  });
+  return Array.from(users.values()).filter(
+    (group) => group.length > 1 && group.some((reuse) => !reuse.previous),
+  );
+}
+
+/**
+ * Finds entries whose current password is also the current or a previous
+ * password of another entry. Only entries with reuse are keyed in the result.
+ */
+export function findPasswordReuse(entries: VaultEntry[]): Record<string, PasswordReuse[]> {
+  const result: Record<string, PasswordReuse[]> = {};
+  findReusedPasswordGroups(entries).forEach((group) => {
+    group.forEach((reuse) => {
+      if (!reuse.previous) {
+        result[reuse.entryId] = group.filter((other) => other.entryId !== reuse.entryId);
+      }
+    });
+  });
+  return result;
+}
@@ -0,0 +1,56 @@
+export interface EmergencyKitDetails {
+  recoveryKey: string;
+  createdAt: number;
+  appUrl?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Renders a self-contained, print-friendly HTML page for the recovery key. */
+export function buildEmergencyKitHtml(details: EmergencyKitDetails): string {
+  const created = new Date(details.createdAt).toISOString().slice(0, 10);
+  const appUrl = details.appUrl ? escapeHtml(details.appUrl) : "your Vaultlight installation";
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Vaultlight Emergency Kit</title>
+    <style>
+      body { font-family: system-ui, sans-serif; color: #0f172a; margin: 48px auto; max-width: 640px; line-height: 1.5; }
+      h1 { margin-bottom: 4px; }
+      .muted { color: #475569; }
+      .key { font-family: ui-monospace, monospace; font-size: 1.25rem; letter-spacing: 0.08em; padding: 20px; border: 2px dashed #0f172a; border-radius: 12px; word-break: break-all; margin: 24px 0; }
+      .field { border-bottom: 1px solid #94a3b8; height: 32px; margin-bottom: 20px; }
+      ol li { margin-bottom: 8px; }
+      @media print { body { margin: 24px; } .no-print { display: none; } }
+    </style>
+  </head>
+  <body>
+    <h1>Vaultlight Emergency Kit</h1>
+    <p class="muted">Created ${escapeHtml(created)} · Keep this page offline and somewhere safe.</p>
+    <h2>Recovery key</h2>
+    <div class="key">${escapeHtml(details.recoveryKey)}</div>
+    <h2>Master password (optional)</h2>
+    <div class="field"></div>
+    <h2>How to recover your vault</h2>
+    <ol>
+      <li>Open ${appUrl} on the device that holds your vault.</li>
+      <li>On the locked screen choose <strong>Use recovery key</strong>.</li>
+      <li>Enter the recovery key above and choose a new master password.</li>
+    </ol>
+    <p class="muted">
+      Anyone holding this key can open your vault. Generating a new recovery key in Vaultlight
+      invalidates this kit.
+    </p>
+    <button class="no-print" onclick="window.print()">Print or save as PDF</button>
+  </body>
+</html>
+`;
+}
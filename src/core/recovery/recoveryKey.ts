@@ -0,0 +1,65 @@
+const RECOVERY_KEY_BYTES = 32;
+const RECOVERY_KEY_PREFIX = "VLRK";
+const GROUP_SIZE = 4;
+// Crockford base32: no I, L, O or U so the printed key survives handwriting.
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const ENCODED_LENGTH = Math.ceil((RECOVERY_KEY_BYTES * 8) / 5);
+
+function getCrypto(): Crypto {
+  if (typeof globalThis.crypto?.getRandomValues === "function") {
+    return globalThis.crypto as Crypto;
+  }
+  throw new Error("Could not locate a cryptographically secure random source.");
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  bytes.forEach((byte) => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function groupKey(body: string): string {
+  const groups: string[] = [];
+  for (let i = 0; i < body.length; i += GROUP_SIZE) {
+    groups.push(body.slice(i, i + GROUP_SIZE));
+  }
+  return [RECOVERY_KEY_PREFIX, ...groups].join("-");
+}
+
+/** Generates a 256-bit recovery key, formatted as `VLRK-XXXX-XXXX-…` for printing. */
+export function generateRecoveryKey(): string {
+  const bytes = getCrypto().getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES));
+  return groupKey(encodeBase32(bytes));
+}
+
+/**
+ * Canonicalizes user input (case, separators, look-alike characters) to the
+ * string that is fed into the key derivation. Returns null when it cannot be a
+ * recovery key.
+ */
+export function normalizeRecoveryKey(input: string): string | null {
+  let body = input.toUpperCase().replace(/[\s-]/g, "");
+  if (body.startsWith(RECOVERY_KEY_PREFIX)) {
+    body = body.slice(RECOVERY_KEY_PREFIX.length);
+  }
+  body = body.replace(/O/g, "0").replace(/[IL]/g, "1");
+  if (body.length !== ENCODED_LENGTH) {
+    return null;
+  }
+  if (!body.split("").every((char) => ALPHABET.includes(char))) {
+    return null;
+  }
+  return groupKey(body);
+}
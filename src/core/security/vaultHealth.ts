@@ -0,0 +1,93 @@
+import type { VaultEntry } from "../crypto/cryptoClient";
+import { assessStrength, type StrengthLevel } from "../password/generator";
+import { findReusedPasswordGroups, type PasswordReuse } from "../password/passwordHistory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AgedPassword {
+  entryId: string;
+  changedAt: number;
+  ageDays: number;
+}
+
+export interface VaultHealthReport {
+  /** 0-100; 100 when no entry with a password has an open issue. */
+  score: number;
+  /** Entries with a password; only these are scored. */
+  checkedEntries: number;
+  breached: string[];
+  reused: PasswordReuse[][];
+  /** Entries whose password is rated "weak" or "medium", by level. */
+  weak: Record<Extract<StrengthLevel, "weak" | "medium">, string[]>;
+  /** Passwords not changed for longer than the configured age, oldest first. */
+  old: AgedPassword[];
+  /** Logins without a URL, so autofill cannot match them. */
+  missingUrl: string[];
+}
+
+// How much a single issue costs the entry it affects; an entry counts its worst issue only.
+const ISSUE_WEIGHTS = {
+  breached: 1,
+  reused: 0.75,
+  weak: 0.75,
+  medium: 0.35,
+  old: 0.25,
+};
+
+/** When the current password was set: its last change, or the entry's creation. */
+export function passwordChangedAt(entry: VaultEntry): number {
+  return entry.passwordHistory?.[0]?.changedAt ?? entry.createdAt;
+}
+
+export function buildVaultHealthReport(
+  entries: VaultEntry[],
+  maxAgeDays: number,
+  now = Date.now(),
+): VaultHealthReport {
+  const withPassword = entries.filter((entry) => entry.password);
+  const penalties = new Map<string, number>();
+  const penalize = (entryId: string, weight: number) =>
+    penalties.set(entryId, Math.max(penalties.get(entryId) ?? 0, weight));
+
+  const breached = withPassword
+    .filter((entry) => entry.exposure?.status === "breached")
+    .map((entry) => entry.id);
+  breached.forEach((id) => penalize(id, ISSUE_WEIGHTS.breached));
+
+  const reused = findReusedPasswordGroups(withPassword);
+  reused.forEach((group) =>
+    group.forEach((reuse) => {
+      if (!reuse.previous) {
+        penalize(reuse.entryId, ISSUE_WEIGHTS.reused);
+      }
+    }),
+  );
+
+  const weak: VaultHealthReport["weak"] = { weak: [], medium: [] };
+  withPassword.forEach((entry) => {
+    const { level } = assessStrength(entry.password);
+    if (level === "weak" || level === "medium") {
+      weak[level].push(entry.id);
+      penalize(entry.id, ISSUE_WEIGHTS[level]);
+    }
+  });
+
+  const old = withPassword
+    .map((entry) => {
+      const changedAt = passwordChangedAt(entry);
+      return { entryId: entry.id, changedAt, ageDays: Math.floor((now - changedAt) / DAY_MS) };
+    })
+    .filter((aged) => aged.ageDays > maxAgeDays)
+    .sort((a, b) => a.changedAt - b.changedAt);
+  old.forEach((aged) => penalize(aged.entryId, ISSUE_WEIGHTS.old));
+
+  const missingUrl = entries
+    .filter((entry) => (entry.template ?? "login") === "login" && !entry.url && !entry.domain)
+    .map((entry) => entry.id);
+
+  const penalty = Array.from(penalties.values()).reduce((total, weight) => total + weight, 0);
+  const score =
+    withPassword.length > 0 ? Math.round(100 * (1 - penalty / withPassword.length)) : 100;
+
+  return { score, checkedEntries: withPassword.length, breached, reused, weak, old, missingUrl };
+}
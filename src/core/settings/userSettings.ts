@@ -1,3 +1,5 @@
+import { DEFAULT_KDF_ALGORITHM, type KdfAlgorithm } from "../crypto/cryptoClient";
+
 export interface UserSettings {
   autoLockMinutes: number;
   generatorLength: number;
@@ -9,6 +11,14 @@ export interface UserSettings {
   clipboardAutoClear: boolean;
   leakChecksEnabled: boolean;
   paranoidMode: boolean;
+  /** The security report flags passwords not changed for longer than this. */
+  passwordMaxAgeDays: number;
+  vaultKdf: KdfAlgorithm;
+  syncEnabled: boolean;
+  /** Empty means the server this app is served from. */
+  syncServerUrl: string;
+  syncVaultId: string;
+  syncToken: string;
 }
 
 export const SETTINGS_STORAGE_KEY = "vaultlight.settings";
@@ -24,6 +34,12 @@ export const DEFAULT_SETTINGS: UserSettings = {
   clipboardAutoClear: true,
   leakChecksEnabled: true,
   paranoidMode: false,
+  passwordMaxAgeDays: 365,
+  vaultKdf: DEFAULT_KDF_ALGORITHM,
+  syncEnabled: false,
+  syncServerUrl: "",
+  syncVaultId: "",
+  syncToken: "",
 };
 
 export function loadSettings(): UserSettings {
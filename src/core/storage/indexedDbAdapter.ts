@@ -0,0 +1,64 @@
+import type { VaultStorageAdapter } from "./storageAdapter";
+
+const DATABASE_NAME = "vaultlight";
+const DATABASE_VERSION = 1;
+const RECORD_STORE = "records";
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(RECORD_STORE)) {
+        request.result.createObjectStore(RECORD_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB could not be opened."));
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab."));
+  });
+}
+
+export async function createIndexedDbAdapter(): Promise<VaultStorageAdapter> {
+  const database = await openDatabase();
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const transaction = database.transaction(RECORD_STORE, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted."));
+    });
+    // A failed request also aborts the transaction; that error surfaces through the request.
+    committed.catch(() => undefined);
+    const result = await requestToPromise(action(transaction.objectStore(RECORD_STORE)));
+    // Writes only count once the transaction has committed.
+    await committed;
+    return result;
+  };
+
+  return {
+    backend: "indexeddb",
+    async get<T>(key: string): Promise<T | null> {
+      const value = await run("readonly", (store) => store.get(key));
+      return value === undefined ? null : (value as T);
+    },
+    async has(key: string): Promise<boolean> {
+      return (await run("readonly", (store) => store.count(key))) > 0;
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    async remove(key: string): Promise<void> {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import type { VaultStorageAdapter } from "./storageAdapter";
+
+export function createLocalStorageAdapter(): VaultStorageAdapter {
+  return {
+    backend: "localstorage",
+    async get<T>(key: string): Promise<T | null> {
+      const raw = window.localStorage.getItem(key);
+      if (!raw) {
+        return null;
+      }
+      try {
+        return JSON.parse(raw) as T;
+      } catch (error) {
+        console.error(`Failed to parse stored record ${key}`, error);
+        return null;
+      }
+    },
+    async has(key: string): Promise<boolean> {
+      return Boolean(window.localStorage.getItem(key));
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    },
+    async remove(key: string): Promise<void> {
+      window.localStorage.removeItem(key);
+    },
+  };
+}
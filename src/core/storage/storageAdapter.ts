@@ -0,0 +1,56 @@
+import { createIndexedDbAdapter, isIndexedDbAvailable } from "./indexedDbAdapter";
+import { createLocalStorageAdapter } from "./localStorageAdapter";
+
+export type StorageBackend = "indexeddb" | "localstorage";
+
+/** Async key/value store the vault is persisted through. Values must be structured-cloneable. */
+export interface VaultStorageAdapter {
+  backend: StorageBackend;
+  get<T>(key: string): Promise<T | null>;
+  /** Whether a record exists, without reading it. */
+  has(key: string): Promise<boolean>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+let adapterPromise: Promise<VaultStorageAdapter> | null = null;
+
+// Copies records still sitting in localStorage into IndexedDB once, then drops the originals.
+async function migrateFromLocalStorage(target: VaultStorageAdapter, keys: string[]) {
+  const legacy = createLocalStorageAdapter();
+  for (const key of keys) {
+    const value = await legacy.get<unknown>(key);
+    if (value === null) {
+      continue;
+    }
+    if ((await target.get<unknown>(key)) === null) {
+      await target.set(key, value);
+    }
+    await legacy.remove(key);
+  }
+}
+
+async function resolveAdapter(migratedKeys: string[]): Promise<VaultStorageAdapter> {
+  if (!isIndexedDbAvailable()) {
+    return createLocalStorageAdapter();
+  }
+  try {
+    const adapter = await createIndexedDbAdapter();
+    await migrateFromLocalStorage(adapter, migratedKeys);
+    return adapter;
+  } catch (error) {
+    console.warn("Vaultlight: IndexedDB unavailable, falling back to localStorage.", error);
+    return createLocalStorageAdapter();
+  }
+}
+
+/**
+ * Returns the shared adapter: IndexedDB where the browser allows it, otherwise
+ * localStorage. `migratedKeys` are moved out of localStorage on first use.
+ */
+export function getStorageAdapter(migratedKeys: string[] = []): Promise<VaultStorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = resolveAdapter(migratedKeys);
+  }
+  return adapterPromise;
+}
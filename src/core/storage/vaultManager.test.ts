@@ -0,0 +1,74 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createVaultKeyring,
+  openVault,
+  type VaultKeyring,
+  type VaultPayload,
+} from "../crypto/cryptoClient";
+import { persistVault, rotateMasterPassword } from "./vaultManager";
+import { clearStoredVault, loadVaultSnapshots } from "./vaultStorage";
+
+const OLD_PASSWORD = "correct horse battery staple";
+const NEW_PASSWORD = "tr0ub4dor & three";
+
+function payloadWith(...ids: string[]): VaultPayload {
+  return {
+    version: 2,
+    entries: ids.map((id) => ({
+      id,
+      label: id,
+      username: "alice",
+      password: `${id}-password`,
+      createdAt: 1_700_000_000_000,
+      updatedAt: 1_700_000_000_000,
+    })),
+  };
+}
+
+describe("rotateMasterPassword", () => {
+  let keyring: VaultKeyring;
+
+  beforeAll(() => {
+    const records = new Map<string, string>();
+    vi.stubGlobal("window", {
+      crypto: globalThis.crypto,
+      localStorage: {
+        getItem: (key: string) => records.get(key) ?? null,
+        setItem: (key: string, value: string) => records.set(key, value),
+        removeItem: (key: string) => records.delete(key),
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await clearStoredVault();
+    keyring = await createVaultKeyring(OLD_PASSWORD, {
+      algorithm: "PBKDF2",
+      hash: "SHA-256",
+      iterations: 1_000,
+    });
+  });
+
+  it("leaves no snapshot that the old password can open", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      await persistVault(keyring, payloadWith("first"));
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      await persistVault(keyring, payloadWith("first", "second"));
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      await persistVault(keyring, payloadWith("first", "second", "third"));
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(await loadVaultSnapshots()).toHaveLength(2);
+
+    await rotateMasterPassword(keyring, NEW_PASSWORD, "PBKDF2");
+
+    const snapshots = await loadVaultSnapshots();
+    expect(snapshots).toHaveLength(2);
+    for (const snapshot of snapshots) {
+      await expect(openVault(OLD_PASSWORD, snapshot.vault)).rejects.toThrow();
+      await expect(openVault(NEW_PASSWORD, snapshot.vault)).resolves.toBeDefined();
+    }
+  });
+});
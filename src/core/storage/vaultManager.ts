@@ -1,52 +1,313 @@
 import {
-  decryptVault,
-  encryptVault,
+  decryptPayload,
+  defaultKdfParams,
   emptyVault,
+  encryptPayload,
+  createVaultKeyring,
+  openVault,
+  openVaultWithSlot,
+  replaceKeySlot,
+  unwrapDataKey,
+  wrapDataKey,
+  type EncryptedVault,
+  type KdfAlgorithm,
+  type OpenedVault,
   type VaultEntry,
+  type VaultKeyring,
+  type VaultKeySlot,
   type VaultPayload,
   hydrateExposures,
 } from "../crypto/cryptoClient";
+import { migrateVaultPayload, type AppliedMigration } from "../crypto/vaultMigrations";
+import { assertPasskey, registerPasskey } from "../passkey/webauthnPrf";
+import { generateRecoveryKey, normalizeRecoveryKey } from "../recovery/recoveryKey";
 import {
   loadEncryptedVault,
   saveEncryptedVault,
   hasExistingVault,
   clearStoredVault,
+  loadVaultSnapshots,
+  saveVaultSnapshots,
   markLastUnlocked,
 } from "./vaultStorage";
 
+export type UnlockCredential =
+  | { method: "master"; password: string }
+  | { method: "recovery"; recoveryKey: string }
+  | { method: "passkey" };
+
 export interface UnlockResult {
   payload: VaultPayload;
+  keyring: VaultKeyring;
   isNewVault: boolean;
+  appliedMigrations: AppliedMigration[];
+  /** True when the envelope or its key slot was rewritten and should be saved right away. */
+  needsPersist: boolean;
 }
 
-export async function unlockVault(masterPassword: string): Promise<UnlockResult> {
-  const encrypted = loadEncryptedVault();
+export async function unlockVault(
+  credential: UnlockCredential,
+  kdfAlgorithm?: KdfAlgorithm,
+): Promise<UnlockResult> {
+  const kdf = defaultKdfParams(kdfAlgorithm);
+  const encrypted = await loadEncryptedVault();
   if (!encrypted) {
+    if (credential.method !== "master") {
+      throw new Error("No vault stored on this device.");
+    }
     const fresh = emptyVault();
-    markLastUnlocked();
+    await markLastUnlocked();
     return {
       payload: fresh,
+      keyring: await createVaultKeyring(credential.password, kdf),
       isNewVault: true,
+      appliedMigrations: [],
+      needsPersist: true,
     };
   }
 
-  const decrypted = await decryptVault(masterPassword, encrypted);
-  markLastUnlocked();
+  let opened: OpenedVault;
+  let kdfChanged = false;
+  if (credential.method === "recovery") {
+    const recoveryKey = normalizeRecoveryKey(credential.recoveryKey);
+    if (!recoveryKey) {
+      throw new Error("Recovery key format is invalid.");
+    }
+    opened = await openVault(recoveryKey, encrypted, "recovery");
+  } else if (credential.method === "passkey") {
+    const slots = (encrypted.keySlots ?? []).filter((slot) => slot.kind === "passkey" && slot.passkey);
+    const assertion = await assertPasskey(slots.flatMap((slot) => (slot.passkey ? [slot.passkey] : [])));
+    const slot = slots.find((candidate) => candidate.passkey?.credentialId === assertion.credentialId);
+    if (!slot) {
+      throw new Error("This passkey is not enrolled for the vault.");
+    }
+    opened = await openVaultWithSlot(assertion.secret, encrypted, slot.id);
+  } else {
+    opened = await openVault(credential.password, encrypted, "master", kdf);
+    // Upgrade the master slot transparently when it was written with another KDF.
+    kdfChanged = Boolean(opened.slot && opened.slot.kdf.algorithm !== kdf.algorithm);
+    if (kdfChanged) {
+      opened = {
+        ...opened,
+        keyring: await replaceKeySlot(opened.keyring, "master", credential.password, kdf),
+      };
+    }
+  }
+  const { payload: migrated, applied } = migrateVaultPayload(opened.payload);
+  await markLastUnlocked();
   return {
     payload: {
-      ...decrypted,
-      entries: hydrateExposures(decrypted.entries),
+      ...migrated,
+      entries: hydrateExposures(migrated.entries),
     },
+    keyring: opened.keyring,
     isNewVault: false,
+    appliedMigrations: applied,
+    needsPersist: !opened.slot || kdfChanged || applied.length > 0,
+  };
+}
+
+let vaultWrites: Promise<unknown> = Promise.resolve();
+// Key slots last written for a data key. A save that started with an older
+// keyring (e.g. a leak check running during a password change) must not put
+// the previous slots back.
+const savedKeySlots = new WeakMap<CryptoKey, VaultKeySlot[]>();
+
+/** Runs writes of the stored envelope one after another, so none works from a stale copy. */
+export function queueVaultWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = vaultWrites.then(write);
+  vaultWrites = result.catch(() => undefined);
+  return result;
+}
+
+/** Encrypts the payload with the vault data key; the master password is not needed. */
+export function persistVault(keyring: VaultKeyring, payload: VaultPayload): Promise<void> {
+  return queueVaultWrite(async () => {
+    const keySlots = savedKeySlots.get(keyring.dataKey) ?? keyring.keySlots;
+    const encrypted = await encryptPayload({ ...keyring, keySlots }, payload);
+    await saveEncryptedVault(encrypted);
+  });
+}
+
+async function sharesDataKey(dataKey: CryptoKey, vault: EncryptedVault): Promise<boolean> {
+  if ((vault.version ?? 1) < 3) {
+    return false;
+  }
+  return decryptPayload(dataKey, vault).then(
+    () => true,
+    () => false,
+  );
+}
+
+// Writes new key slots next to the existing ciphertext; the payload is not re-encrypted.
+// Snapshots under the same data key get the new slots too, so a replaced password,
+// passkey or recovery key cannot unwrap the key from an older copy.
+function saveKeySlots(keyring: VaultKeyring): Promise<void> {
+  return queueVaultWrite(async () => {
+    const encrypted = await loadEncryptedVault();
+    if (!encrypted || (encrypted.version ?? 1) < 3) {
+      throw new Error("Vault must be saved in the current format before its keys can change.");
+    }
+    await saveEncryptedVault(
+      {
+        ...encrypted,
+        keySlots: keyring.keySlots,
+      },
+      { snapshot: false },
+    );
+    savedKeySlots.set(keyring.dataKey, keyring.keySlots);
+    const snapshots = await loadVaultSnapshots();
+    const rewrapped = await Promise.all(
+      snapshots.map(async (snapshot) =>
+        (await sharesDataKey(keyring.dataKey, snapshot.vault))
+          ? { ...snapshot, vault: { ...snapshot.vault, keySlots: keyring.keySlots } }
+          : snapshot,
+      ),
+    );
+    await saveVaultSnapshots(rewrapped);
+  });
+}
+
+/**
+ * Rewraps the data key for a new master password. The payload ciphertext is
+ * left untouched; only the key slots of the stored envelope change.
+ */
+export async function rotateMasterPassword(
+  keyring: VaultKeyring,
+  nextPassword: string,
+  kdfAlgorithm?: KdfAlgorithm,
+): Promise<VaultKeyring> {
+  const next = await replaceKeySlot(keyring, "master", nextPassword, defaultKdfParams(kdfAlgorithm));
+  await saveKeySlots(next);
+  return next;
+}
+
+export interface RecoveryEnrollment {
+  keyring: VaultKeyring;
+  recoveryKey: string;
+}
+
+/** Generates a new recovery key and wraps the data key with it, replacing any previous one. */
+export async function enrollRecoveryKey(keyring: VaultKeyring): Promise<RecoveryEnrollment> {
+  const recoveryKey = generateRecoveryKey();
+  const next = await replaceKeySlot(keyring, "recovery", recoveryKey);
+  await saveKeySlots(next);
+  return {
+    keyring: next,
+    recoveryKey,
   };
 }
 
-export async function persistVault(
+export interface PasskeySummary {
+  id: string;
+  label: string;
+  createdAt: number;
+}
+
+/** Passkeys enrolled in the stored envelope; readable while the vault is locked. */
+export async function loadPasskeys(): Promise<PasskeySummary[]> {
+  const encrypted = await loadEncryptedVault();
+  return (encrypted?.keySlots ?? []).flatMap((slot) =>
+    slot.kind === "passkey" && slot.passkey
+      ? [{ id: slot.id, label: slot.passkey.label, createdAt: slot.createdAt }]
+      : [],
+  );
+}
+
+/**
+ * Registers a platform passkey and wraps the data key with its PRF output.
+ * Each passkey gets its own slot, so several devices can be enrolled; the
+ * master password slot is untouched and stays the fallback.
+ */
+export async function enrollPasskey(keyring: VaultKeyring, label: string): Promise<VaultKeyring> {
+  const registration = await registerPasskey(label);
+  const slot = await wrapDataKey(
+    keyring.dataKey,
+    registration.secret,
+    "passkey",
+    defaultKdfParams(),
+    registration.info,
+  );
+  const next = {
+    dataKey: keyring.dataKey,
+    keySlots: [...keyring.keySlots, slot],
+  };
+  await saveKeySlots(next);
+  return next;
+}
+
+export async function removePasskey(keyring: VaultKeyring, slotId: string): Promise<VaultKeyring> {
+  const next = {
+    dataKey: keyring.dataKey,
+    keySlots: keyring.keySlots.filter((slot) => slot.id !== slotId || slot.kind !== "passkey"),
+  };
+  await saveKeySlots(next);
+  return next;
+}
+
+export async function hasRecoveryKey(): Promise<boolean> {
+  const encrypted = await loadEncryptedVault();
+  return Boolean(encrypted?.keySlots?.some((slot) => slot.kind === "recovery"));
+}
+
+/** Checks a candidate against the master slot without touching the session. */
+export async function verifyMasterPassword(
+  keyring: VaultKeyring,
+  candidate: string,
+): Promise<boolean> {
+  const masterSlots = keyring.keySlots.filter((slot) => slot.kind === "master");
+  for (const slot of masterSlots) {
+    try {
+      await unwrapDataKey(slot, candidate);
+      return true;
+    } catch {
+      // try the next slot
+    }
+  }
+  return false;
+}
+
+export interface RestoredSnapshot {
+  payload: VaultPayload;
+  keyring: VaultKeyring;
+}
+
+/**
+ * Decrypts a snapshot and saves it as the current vault. Snapshots sharing the
+ * session's data key keep the current key slots; older ones (legacy envelopes,
+ * replaced vaults) are opened with the master password they were saved under.
+ * The envelope being replaced becomes a snapshot itself.
+ */
+export async function restoreVaultSnapshot(
+  keyring: VaultKeyring,
+  snapshotId: string,
   masterPassword: string,
-  payload: VaultPayload,
-): Promise<void> {
-  const encrypted = await encryptVault(masterPassword, payload);
-  saveEncryptedVault(encrypted);
+): Promise<RestoredSnapshot> {
+  const snapshot = (await loadVaultSnapshots()).find((candidate) => candidate.id === snapshotId);
+  if (!snapshot) {
+    throw new Error("Snapshot not found.");
+  }
+  let payload = await decryptPayload(keyring.dataKey, snapshot.vault).catch(() => null);
+  let nextKeyring = keyring;
+  if (payload) {
+    if (!(await verifyMasterPassword(keyring, masterPassword))) {
+      throw new Error("Master password incorrect.");
+    }
+  } else {
+    const opened = await openVault(masterPassword, snapshot.vault);
+    payload = opened.payload;
+    nextKeyring = opened.keyring;
+  }
+  const { payload: migrated } = migrateVaultPayload(payload);
+  const restored = {
+    ...migrated,
+    entries: hydrateExposures(migrated.entries),
+  };
+  await persistVault(nextKeyring, restored);
+  return {
+    payload: restored,
+    keyring: nextKeyring,
+  };
 }
 
 function requireCrypto(): Crypto {
@@ -70,6 +331,13 @@ export function initializeVaultEntry(partial: Partial<VaultEntry>): VaultEntry {
     notes: partial.notes,
     url: partial.url,
     domain: partial.domain,
+    totp: partial.totp,
+    template: partial.template,
+    fields: partial.fields,
+    folder: partial.folder,
+    tags: partial.tags,
+    favorite: partial.favorite,
+    passwordHistory: partial.passwordHistory,
     createdAt: partial.createdAt ?? now,
     updatedAt: now,
     exposure: partial.exposure ?? {
@@ -81,10 +349,10 @@ export function initializeVaultEntry(partial: Partial<VaultEntry>): VaultEntry {
   };
 }
 
-export function vaultExists(): boolean {
+export function vaultExists(): Promise<boolean> {
   return hasExistingVault();
 }
 
-export function resetVault(): void {
-  clearStoredVault();
+export function resetVault(): Promise<void> {
+  return clearStoredVault();
 }
@@ -1,7 +1,21 @@
-import type { EncryptedVault } from "../crypto/cryptoClient";
+import type { EncryptedAttachment, EncryptedCache, EncryptedVault } from "../crypto/cryptoClient";
+import { getStorageAdapter, type StorageBackend, type VaultStorageAdapter } from "./storageAdapter";
 
 const VAULT_STORAGE_KEY = "vaultlight.encrypted-vault";
 const META_STORAGE_KEY = "vaultlight.meta";
+const SNAPSHOT_STORAGE_KEY = "vaultlight.snapshots";
+const SYNC_STATE_STORAGE_KEY = "vaultlight.sync-state";
+// Attachments are kept out of the envelope: one record per file plus an index of their ids.
+const ATTACHMENT_INDEX_STORAGE_KEY = "vaultlight.attachments";
+const ATTACHMENT_STORAGE_PREFIX = "vaultlight.attachment.";
+const LEAK_CACHE_STORAGE_KEY = "vaultlight.leak-cache";
+
+export const SNAPSHOT_LIMIT = 10;
+export const SNAPSHOT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Every replaced envelope is snapshotted. The newest few are always kept; older ones
+// are thinned to one per five minutes, so a burst of saves does not push out the rest.
+const SNAPSHOT_KEEP_RECENT = 3;
+const SNAPSHOT_MIN_INTERVAL_MS = 5 * 60 * 1000;
 
 export interface VaultMeta {
   createdAt: number;
@@ -9,68 +23,215 @@ export interface VaultMeta {
   lastUnlockedAt?: number;
 }
 
-export function hasExistingVault(): boolean {
-  if (typeof window === "undefined") {
-    return false;
-  }
-  return window.localStorage.getItem(VAULT_STORAGE_KEY) !== null;
+/** Last server revision this device has seen, and whether local saves are not yet pushed. */
+export interface SyncState {
+  revision: number;
+  pending: boolean;
+  /** The envelope at `revision`: the common ancestor for the next three-way merge. */
+  base?: EncryptedVault;
+}
+
+/** A previous encrypted envelope, kept so a bad write can be rolled back. */
+export interface VaultSnapshot {
+  id: string;
+  /** When this envelope was originally saved. */
+  createdAt: number;
+  vault: EncryptedVault;
 }
 
-export function loadEncryptedVault(): EncryptedVault | null {
+function storage(): Promise<VaultStorageAdapter> | null {
   if (typeof window === "undefined") {
     return null;
   }
-  try {
-    const raw = window.localStorage.getItem(VAULT_STORAGE_KEY);
-    if (!raw) {
-      return null;
-    }
-    return JSON.parse(raw) as EncryptedVault;
-  } catch (error) {
-    console.error("Failed to parse encrypted vault", error);
+  return getStorageAdapter([VAULT_STORAGE_KEY, META_STORAGE_KEY]);
+}
+
+export async function getStorageBackend(): Promise<StorageBackend | null> {
+  const adapter = await storage();
+  return adapter?.backend ?? null;
+}
+
+export async function hasExistingVault(): Promise<boolean> {
+  const adapter = await storage();
+  return adapter ? adapter.has(VAULT_STORAGE_KEY) : false;
+}
+
+export async function loadEncryptedVault(): Promise<EncryptedVault | null> {
+  const adapter = await storage();
+  if (!adapter) {
     return null;
   }
+  return adapter.get<EncryptedVault>(VAULT_STORAGE_KEY);
 }
 
-export function saveEncryptedVault(record: EncryptedVault): void {
-  if (typeof window === "undefined") {
+/**
+ * Stores the envelope. The one it replaces becomes a snapshot unless `snapshot` is false, as for
+ * a key slot change, where the old copy would only keep the replaced slots usable.
+ */
+export async function saveEncryptedVault(
+  record: EncryptedVault,
+  { snapshot = true }: { snapshot?: boolean } = {},
+): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
     return;
   }
-  window.localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(record));
-  const meta: VaultMeta = loadVaultMeta() ?? { createdAt: Date.now(), updatedAt: Date.now() };
+  const previous = await adapter.get<EncryptedVault>(VAULT_STORAGE_KEY);
+  const meta: VaultMeta = (await loadVaultMeta()) ?? { createdAt: Date.now(), updatedAt: Date.now() };
+  if (previous && snapshot) {
+    await recordSnapshot(adapter, previous, meta.updatedAt);
+  }
+  await adapter.set(VAULT_STORAGE_KEY, record);
   meta.updatedAt = Date.now();
-  window.localStorage.setItem(META_STORAGE_KEY, JSON.stringify(meta));
+  await adapter.set(META_STORAGE_KEY, meta);
+  const syncState = await loadSyncState();
+  if (!syncState.pending) {
+    await adapter.set(SYNC_STATE_STORAGE_KEY, { ...syncState, pending: true });
+  }
 }
 
-export function loadVaultMeta(): VaultMeta | null {
-  if (typeof window === "undefined") {
+export async function loadSyncState(): Promise<SyncState> {
+  const adapter = await storage();
+  const stored = adapter ? await adapter.get<SyncState>(SYNC_STATE_STORAGE_KEY) : null;
+  return stored ?? { revision: 0, pending: true };
+}
+
+export async function saveSyncState(state: SyncState): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
+    return;
+  }
+  await adapter.set(SYNC_STATE_STORAGE_KEY, state);
+}
+
+function pruneSnapshots(snapshots: VaultSnapshot[], now: number): VaultSnapshot[] {
+  // Fixed windows rather than gaps, so a snapshot kept once survives later pruning.
+  const slots = new Set<number>();
+  return snapshots
+    .filter((snapshot) => now - snapshot.createdAt <= SNAPSHOT_MAX_AGE_MS)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .filter((snapshot, index) => {
+      const slot = Math.floor(snapshot.createdAt / SNAPSHOT_MIN_INTERVAL_MS);
+      if (index >= SNAPSHOT_KEEP_RECENT && slots.has(slot)) {
+        return false;
+      }
+      slots.add(slot);
+      return true;
+    })
+    .slice(0, SNAPSHOT_LIMIT);
+}
+
+async function recordSnapshot(adapter: VaultStorageAdapter, vault: EncryptedVault, savedAt: number) {
+  const snapshots = (await adapter.get<VaultSnapshot[]>(SNAPSHOT_STORAGE_KEY)) ?? [];
+  const id = `snapshot-${savedAt}`;
+  const next = snapshots.some((snapshot) => snapshot.id === id)
+    ? snapshots
+    : [{ id, createdAt: savedAt, vault }, ...snapshots];
+  await adapter.set(SNAPSHOT_STORAGE_KEY, pruneSnapshots(next, Date.now()));
+}
+
+/** Snapshots newest first, already pruned by count and age. */
+export async function loadVaultSnapshots(): Promise<VaultSnapshot[]> {
+  const adapter = await storage();
+  if (!adapter) {
+    return [];
+  }
+  const snapshots = (await adapter.get<VaultSnapshot[]>(SNAPSHOT_STORAGE_KEY)) ?? [];
+  return pruneSnapshots(snapshots, Date.now());
+}
+
+export async function saveVaultSnapshots(snapshots: VaultSnapshot[]): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
+    return;
+  }
+  await adapter.set(SNAPSHOT_STORAGE_KEY, pruneSnapshots(snapshots, Date.now()));
+}
+
+export async function loadVaultMeta(): Promise<VaultMeta | null> {
+  const adapter = await storage();
+  if (!adapter) {
     return null;
   }
-  const raw = window.localStorage.getItem(META_STORAGE_KEY);
-  if (!raw) {
+  return adapter.get<VaultMeta>(META_STORAGE_KEY);
+}
+
+export async function markLastUnlocked(): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
+    return;
+  }
+  const meta = (await loadVaultMeta()) ?? { createdAt: Date.now(), updatedAt: Date.now() };
+  meta.lastUnlockedAt = Date.now();
+  await adapter.set(META_STORAGE_KEY, meta);
+}
+
+export async function loadAttachmentIds(): Promise<string[]> {
+  const adapter = await storage();
+  if (!adapter) {
+    return [];
+  }
+  return (await adapter.get<string[]>(ATTACHMENT_INDEX_STORAGE_KEY)) ?? [];
+}
+
+export async function loadAttachment(id: string): Promise<EncryptedAttachment | null> {
+  const adapter = await storage();
+  if (!adapter) {
     return null;
   }
-  try {
-    return JSON.parse(raw) as VaultMeta;
-  } catch (error) {
-    console.error("Failed to parse vault meta", error);
+  return adapter.get<EncryptedAttachment>(`${ATTACHMENT_STORAGE_PREFIX}${id}`);
+}
+
+export async function saveAttachment(record: EncryptedAttachment): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
+    return;
+  }
+  await adapter.set(`${ATTACHMENT_STORAGE_PREFIX}${record.id}`, record);
+  const ids = await loadAttachmentIds();
+  if (!ids.includes(record.id)) {
+    await adapter.set(ATTACHMENT_INDEX_STORAGE_KEY, [...ids, record.id]);
+  }
+}
+
+export async function removeAttachments(ids: string[]): Promise<void> {
+  const adapter = await storage();
+  if (!adapter || ids.length === 0) {
+    return;
+  }
+  for (const id of ids) {
+    await adapter.remove(`${ATTACHMENT_STORAGE_PREFIX}${id}`);
+  }
+  const remaining = (await loadAttachmentIds()).filter((id) => !ids.includes(id));
+  await adapter.set(ATTACHMENT_INDEX_STORAGE_KEY, remaining);
+}
+
+export async function loadLeakCache(): Promise<EncryptedCache | null> {
+  const adapter = await storage();
+  if (!adapter) {
     return null;
   }
+  return adapter.get<EncryptedCache>(LEAK_CACHE_STORAGE_KEY);
 }
 
-export function markLastUnlocked(): void {
-  if (typeof window === "undefined") {
+export async function saveLeakCache(record: EncryptedCache): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
     return;
   }
-  const meta = loadVaultMeta() ?? { createdAt: Date.now(), updatedAt: Date.now() };
-  meta.lastUnlockedAt = Date.now();
-  window.localStorage.setItem(META_STORAGE_KEY, JSON.stringify(meta));
+  await adapter.set(LEAK_CACHE_STORAGE_KEY, record);
 }
 
-export function clearStoredVault(): void {
-  if (typeof window === "undefined") {
+export async function clearStoredVault(): Promise<void> {
+  const adapter = await storage();
+  if (!adapter) {
     return;
   }
-  window.localStorage.removeItem(VAULT_STORAGE_KEY);
-  window.localStorage.removeItem(META_STORAGE_KEY);
+  await removeAttachments(await loadAttachmentIds());
+  await adapter.remove(ATTACHMENT_INDEX_STORAGE_KEY);
+  await adapter.remove(VAULT_STORAGE_KEY);
+  await adapter.remove(META_STORAGE_KEY);
+  await adapter.remove(SNAPSHOT_STORAGE_KEY);
+  await adapter.remove(SYNC_STATE_STORAGE_KEY);
+  await adapter.remove(LEAK_CACHE_STORAGE_KEY);
 }
@@ -0,0 +1,185 @@
+import {
+  openVault,
+  parseEncryptedAttachment,
+  parseEncryptedVault,
+  type EncryptedAttachment,
+  type EncryptedVault,
+  type VaultEntry,
+  type VaultKeyring,
+  type VaultPayload,
+  hydrateExposures,
+} from "../crypto/cryptoClient";
+import { migrateVaultPayload } from "../crypto/vaultMigrations";
+import {
+  loadAttachment,
+  loadAttachmentIds,
+  loadEncryptedVault,
+  loadVaultMeta,
+  saveAttachment,
+  type VaultMeta,
+} from "./vaultStorage";
+
+export const VAULT_EXPORT_FORMAT = "vaultlight.export";
+// v2 adds the encrypted attachment records.
+export const VAULT_EXPORT_VERSION = 2;
+export const VAULT_EXPORT_EXTENSION = ".vaultlight";
+
+/** Contents of a `.vaultlight` file: the stored envelope and attachments as-is plus metadata. */
+export interface VaultExportFile {
+  format: typeof VAULT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  vault: EncryptedVault;
+  meta: VaultMeta | null;
+  /** Still encrypted with their per-file keys, which only the envelope's entries hold. */
+  attachments: EncryptedAttachment[];
+}
+
+export interface VerifiedImport {
+  payload: VaultPayload;
+  keyring: VaultKeyring;
+  meta: VaultMeta | null;
+}
+
+export interface MergeSummary {
+  payload: VaultPayload;
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+export async function createVaultExport(): Promise<VaultExportFile> {
+  const vault = await loadEncryptedVault();
+  if (!vault) {
+    throw new Error("No stored vault to export.");
+  }
+  const attachments: EncryptedAttachment[] = [];
+  for (const id of await loadAttachmentIds()) {
+    const record = await loadAttachment(id);
+    if (record) {
+      attachments.push(record);
+    }
+  }
+  return {
+    format: VAULT_EXPORT_FORMAT,
+    version: VAULT_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    vault,
+    meta: await loadVaultMeta(),
+    attachments,
+  };
+}
+
+export function serializeVaultExport(file: VaultExportFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+export function vaultExportFilename(exportedAt: number): string {
+  const day = new Date(exportedAt).toISOString().slice(0, 10);
+  return `vaultlight-${day}${VAULT_EXPORT_EXTENSION}`;
+}
+
+export function parseVaultExport(text: string): VaultExportFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("File is not a Vaultlight export.");
+  }
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error("File is not a Vaultlight export.");
+  }
+  const candidate = raw as Partial<VaultExportFile>;
+  if (candidate.format !== VAULT_EXPORT_FORMAT) {
+    throw new Error("File is not a Vaultlight export.");
+  }
+  if (typeof candidate.version !== "number" || candidate.version > VAULT_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(candidate.version)}.`);
+  }
+  if (candidate.attachments !== undefined && !Array.isArray(candidate.attachments)) {
+    throw new Error("Export attachments are malformed.");
+  }
+  return {
+    format: VAULT_EXPORT_FORMAT,
+    version: candidate.version,
+    exportedAt: typeof candidate.exportedAt === "number" ? candidate.exportedAt : 0,
+    vault: parseEncryptedVault(candidate.vault),
+    meta: candidate.meta ?? null,
+    attachments: (candidate.attachments ?? []).map(parseEncryptedAttachment),
+  };
+}
+
+/**
+ * Stores the backup's attachment records that entries of `payload` (the vault as it
+ * will be saved) refer to; call once the import has been verified.
+ */
+export async function restoreExportAttachments(
+  file: VaultExportFile,
+  payload: VaultPayload,
+): Promise<void> {
+  const referenced = new Set(
+    payload.entries.flatMap((entry) => (entry.attachments ?? []).map((ref) => ref.id)),
+  );
+  for (const record of file.attachments) {
+    if (referenced.has(record.id)) {
+      await saveAttachment(record);
+    }
+  }
+}
+
+/** Proves the export decrypts with the supplied master password before anything is written. */
+export async function verifyVaultExport(
+  file: VaultExportFile,
+  masterPassword: string,
+): Promise<VerifiedImport> {
+  const opened = await openVault(masterPassword, file.vault);
+  const { payload } = migrateVaultPayload(opened.payload);
+  return {
+    payload: {
+      ...payload,
+      entries: hydrateExposures(payload.entries),
+    },
+    keyring: opened.keyring,
+    meta: file.meta,
+  };
+}
+
+/**
+ * Adds entries missing locally and keeps the newer copy when both sides have the same id.
+ * Entries deleted locally stay deleted unless the backup changed them after the deletion.
+ */
+export function mergeVaultPayloads(current: VaultPayload, incoming: VaultPayload): MergeSummary {
+  const byId = new Map<string, VaultEntry>(current.entries.map((entry) => [entry.id, entry]));
+  const deletedAt = new Map(
+    (current.tombstones ?? []).map((tombstone) => [tombstone.id, tombstone.deletedAt]),
+  );
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+  incoming.entries.forEach((entry) => {
+    const existing = byId.get(entry.id);
+    const deleted = deletedAt.get(entry.id);
+    if (deleted !== undefined && deleted >= entry.updatedAt) {
+      unchanged += 1;
+    } else if (!existing) {
+      deletedAt.delete(entry.id);
+      byId.set(entry.id, entry);
+      added += 1;
+    } else if (entry.updatedAt > existing.updatedAt) {
+      byId.set(entry.id, entry);
+      updated += 1;
+    } else {
+      unchanged += 1;
+    }
+  });
+  return {
+    payload: {
+      ...current,
+      entries: Array.from(byId.values()),
+      tombstones: current.tombstones?.filter((tombstone) => deletedAt.has(tombstone.id)),
+    },
+    added,
+    updated,
+    unchanged,
+  };
+}
@@ -0,0 +1,73 @@
+import type { EncryptedVault } from "../crypto/cryptoClient";
+
+export interface SyncEndpoint {
+  /** Base URL of the Vaultlight server; empty for the current origin. */
+  serverUrl: string;
+  vaultId: string;
+  token: string;
+}
+
+export interface RemoteVault {
+  revision: number;
+  vault: EncryptedVault;
+  updatedAt: number;
+}
+
+export type PushResult =
+  | { status: "ok"; revision: number }
+  | { status: "conflict"; remote: RemoteVault | null };
+
+interface SyncResponse {
+  success: boolean;
+  record?: RemoteVault | null;
+  error?: string;
+}
+
+function syncUrl(endpoint: SyncEndpoint): string {
+  const base = endpoint.serverUrl.trim().replace(/\/+$/, "");
+  return `${base}/api/sync/${encodeURIComponent(endpoint.vaultId)}`;
+}
+
+async function readResponse(response: Response): Promise<SyncResponse> {
+  try {
+    return (await response.json()) as SyncResponse;
+  } catch {
+    return { success: false, error: `Sync server HTTP ${response.status}` };
+  }
+}
+
+export async function fetchRemoteVault(endpoint: SyncEndpoint): Promise<RemoteVault | null> {
+  const response = await fetch(syncUrl(endpoint), {
+    method: "GET",
+    headers: { Authorization: `Bearer ${endpoint.token}` },
+    cache: "no-store",
+  });
+  const body = await readResponse(response);
+  if (!response.ok || !body.success) {
+    throw new Error(body.error ?? `Sync server HTTP ${response.status}`);
+  }
+  return body.record ?? null;
+}
+
+export async function pushRemoteVault(
+  endpoint: SyncEndpoint,
+  vault: EncryptedVault,
+  baseRevision: number,
+): Promise<PushResult> {
+  const response = await fetch(syncUrl(endpoint), {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${endpoint.token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ baseRevision, vault }),
+  });
+  const body = await readResponse(response);
+  if (response.status === 409) {
+    return { status: "conflict", remote: body.record ?? null };
+  }
+  if (!response.ok || !body.success || !body.record) {
+    throw new Error(body.error ?? `Sync server HTTP ${response.status}`);
+  }
+  return { status: "ok", revision: body.record.revision };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { EntryConflict, VaultEntry, VaultPayload } from "../crypto/cryptoClient";
+import { TOMBSTONE_RETENTION_MS, deleteVaultEntry, mergeVaultCopies } from "./vaultMerge";
+
+const NOW = 1_800_000_000_000;
+
+function entry(partial: Partial<VaultEntry> = {}): VaultEntry {
+  return {
+    id: "entry",
+    label: "Entry",
+    username: "alice",
+    password: "secret",
+    createdAt: 1,
+    updatedAt: 1,
+    ...partial,
+  };
+}
+
+function vault(entries: VaultEntry[], extra: Partial<VaultPayload> = {}): VaultPayload {
+  return { version: 2, entries, ...extra };
+}
+
+function conflict(id: string): EntryConflict {
+  return { id, local: entry({ id }), remote: entry({ id, password: "other" }), detectedAt: 5 };
+}
+
+describe("mergeVaultCopies", () => {
+  const base = vault([entry()]);
+  const edited = entry({ password: "changed", updatedAt: 10 });
+
+  it("keeps a local edit of an entry deleted remotely and reports the conflict", () => {
+    const remote = deleteVaultEntry(base, "entry", NOW - 100);
+    const merged = mergeVaultCopies(base, vault([edited]), remote, NOW);
+
+    expect(merged.entries).toEqual([edited]);
+    expect(merged.tombstones).toEqual([]);
+    expect(merged.conflicts).toEqual([
+      { id: "entry", local: edited, remote: null, detectedAt: NOW },
+    ]);
+  });
+
+  it("keeps a remote edit of an entry deleted locally and reports the conflict", () => {
+    const local = deleteVaultEntry(base, "entry", NOW - 100);
+    const merged = mergeVaultCopies(base, local, vault([edited]), NOW);
+
+    expect(merged.entries).toEqual([edited]);
+    expect(merged.conflicts).toEqual([
+      { id: "entry", local: null, remote: edited, detectedAt: NOW },
+    ]);
+  });
+
+  it("keeps one tombstone for an entry deleted on both sides", () => {
+    const merged = mergeVaultCopies(
+      base,
+      deleteVaultEntry(base, "entry", NOW - 200),
+      deleteVaultEntry(base, "entry", NOW - 100),
+      NOW,
+    );
+
+    expect(merged.entries).toEqual([]);
+    expect(merged.tombstones).toEqual([{ id: "entry", deletedAt: NOW - 100 }]);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("treats every divergent entry as a conflict without a base", () => {
+    const newer = entry({ password: "remote", updatedAt: 20 });
+    const merged = mergeVaultCopies(null, vault([edited]), vault([newer]), NOW);
+
+    expect(merged.entries).toEqual([newer]);
+    expect(merged.conflicts).toEqual([
+      { id: "entry", local: edited, remote: newer, detectedAt: NOW },
+    ]);
+  });
+
+  it("merges identical copies without a base cleanly", () => {
+    const merged = mergeVaultCopies(null, vault([edited]), vault([edited]), NOW);
+
+    expect(merged.entries).toEqual([edited]);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("lets a change made on one side only win", () => {
+    expect(mergeVaultCopies(base, base, vault([edited]), NOW).entries).toEqual([edited]);
+    expect(mergeVaultCopies(base, vault([edited]), base, NOW).entries).toEqual([edited]);
+
+    const deleted = mergeVaultCopies(base, base, deleteVaultEntry(base, "entry", NOW - 100), NOW);
+    expect(deleted.entries).toEqual([]);
+    expect(deleted.tombstones).toEqual([{ id: "entry", deletedAt: NOW - 100 }]);
+    expect(deleted.conflicts).toEqual([]);
+  });
+
+  it("does not count a refreshed exposure as an edit", () => {
+    const checked = entry({
+      updatedAt: 30,
+      exposure: { status: "safe", sources: [], lastChecked: 30 },
+    });
+
+    const merged = mergeVaultCopies(base, vault([checked]), vault([edited]), NOW);
+
+    expect(merged.entries).toEqual([edited]);
+    expect(merged.conflicts).toEqual([]);
+  });
+
+  it("drops a conflict that one side has resolved", () => {
+    const open = conflict("entry");
+    const fresh = conflict("other");
+    const merged = mergeVaultCopies(
+      vault([entry()], { conflicts: [open] }),
+      vault([entry()]),
+      vault([entry()], { conflicts: [open, fresh] }),
+      NOW,
+    );
+
+    expect(merged.conflicts).toEqual([fresh]);
+  });
+
+  it("forgets tombstones older than the retention period", () => {
+    const local = vault([], {
+      tombstones: [
+        { id: "expired", deletedAt: NOW - TOMBSTONE_RETENTION_MS - 1 },
+        { id: "kept", deletedAt: NOW - TOMBSTONE_RETENTION_MS },
+      ],
+    });
+
+    const merged = mergeVaultCopies(local, local, local, NOW);
+
+    expect(merged.tombstones).toEqual([{ id: "kept", deletedAt: NOW - TOMBSTONE_RETENTION_MS }]);
+  });
+
+  it("keeps an entry that one copy lacks without a tombstone", () => {
+    expect(mergeVaultCopies(base, vault([]), base, NOW).entries).toEqual([entry()]);
+    expect(mergeVaultCopies(base, base, vault([]), NOW).entries).toEqual([entry()]);
+  });
+});
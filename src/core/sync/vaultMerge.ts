@@ -0,0 +1,228 @@
+import type {
+  EntryConflict,
+  VaultEntry,
+  VaultPayload,
+  VaultTombstone,
+} from "../crypto/cryptoClient";
+
+// Tombstones only have to outlive the time a device may stay offline.
+export const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+type EntryState =
+  | { kind: "entry"; entry: VaultEntry }
+  | { kind: "deleted"; deletedAt: number }
+  | { kind: "absent" };
+
+function stateOf(payload: VaultPayload, id: string): EntryState {
+  const entry = payload.entries.find((candidate) => candidate.id === id);
+  if (entry) {
+    return { kind: "entry", entry };
+  }
+  const tombstone = payload.tombstones?.find((candidate) => candidate.id === id);
+  return tombstone ? { kind: "deleted", deletedAt: tombstone.deletedAt } : { kind: "absent" };
+}
+
+// Exposure results are refreshed independently on every device and never count as an edit.
+function contentKey(entry: VaultEntry): string {
+  const { exposure: _exposure, updatedAt: _updatedAt, ...content } = entry;
+  const record = content as Record<string, unknown>;
+  return JSON.stringify(
+    Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => [key, record[key]]),
+  );
+}
+
+function sameState(a: EntryState, b: EntryState): boolean {
+  if (a.kind !== b.kind) {
+    return false;
+  }
+  if (a.kind === "entry" && b.kind === "entry") {
+    return contentKey(a.entry) === contentKey(b.entry);
+  }
+  return true;
+}
+
+function newer(a: VaultEntry, b: VaultEntry): VaultEntry {
+  return b.updatedAt > a.updatedAt ? b : a;
+}
+
+function asEntry(state: EntryState): VaultEntry | null {
+  return state.kind === "entry" ? state.entry : null;
+}
+
+interface Resolution {
+  state: EntryState;
+  conflict?: EntryConflict;
+}
+
+function resolveEntry(
+  id: string,
+  local: EntryState,
+  remote: EntryState,
+  base: EntryState | null,
+  now: number,
+): Resolution {
+  if (sameState(local, remote)) {
+    if (local.kind === "entry" && remote.kind === "entry") {
+      return { state: { kind: "entry", entry: newer(local.entry, remote.entry) } };
+    }
+    if (local.kind === "deleted" && remote.kind === "deleted") {
+      return { state: { kind: "deleted", deletedAt: Math.max(local.deletedAt, remote.deletedAt) } };
+    }
+    return { state: local };
+  }
+  // Only a tombstone deletes: an entry missing without one (e.g. a truncated copy) is kept.
+  if (local.kind === "absent") {
+    return { state: remote };
+  }
+  if (remote.kind === "absent") {
+    return { state: local };
+  }
+  if (base) {
+    if (sameState(local, base)) {
+      return { state: remote };
+    }
+    if (sameState(remote, base)) {
+      return { state: local };
+    }
+  }
+
+  const conflict: EntryConflict = {
+    id,
+    local: asEntry(local),
+    remote: asEntry(remote),
+    detectedAt: now,
+  };
+  if (local.kind === "entry" && remote.kind === "entry") {
+    return { state: { kind: "entry", entry: newer(local.entry, remote.entry) }, conflict };
+  }
+  // Edited on one side, deleted on the other: keep the edit until the user decides.
+  const edited = local.kind === "entry" ? local : remote;
+  return { state: edited, conflict };
+}
+
+/**
+ * Open conflicts of both copies. A conflict that the base still lists but one
+ * side no longer does was resolved on that side and is dropped.
+ */
+function mergeConflicts(
+  base: VaultPayload | null,
+  local: VaultPayload,
+  remote: VaultPayload,
+): Map<string, EntryConflict> {
+  const listed = (payload: VaultPayload) =>
+    new Set((payload.conflicts ?? []).map((conflict) => conflict.id));
+  const [inBase, inLocal, inRemote] = [base, local, remote].map((payload) =>
+    payload ? listed(payload) : new Set<string>(),
+  );
+  const conflicts = new Map<string, EntryConflict>();
+  [...(remote.conflicts ?? []), ...(local.conflicts ?? [])].forEach((conflict) => {
+    const resolved =
+      inBase.has(conflict.id) && !(inLocal.has(conflict.id) && inRemote.has(conflict.id));
+    if (!resolved) {
+      conflicts.set(conflict.id, conflict);
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * Three-way merge of two copies of the vault, entry by entry. `base` is the
+ * last copy both sides agreed on (null when unknown, which makes every
+ * divergent entry a conflict). Changes made on only one side win; entries
+ * changed differently on both sides keep the newer version in place and are
+ * reported in `conflicts` for the user to resolve. Entries are only removed
+ * through a tombstone, never because one copy lacks them.
+ */
+export function mergeVaultCopies(
+  base: VaultPayload | null,
+  local: VaultPayload,
+  remote: VaultPayload,
+  now = Date.now(),
+): VaultPayload {
+  const ids = new Set<string>();
+  [local, remote].forEach((payload) => {
+    payload.entries.forEach((entry) => ids.add(entry.id));
+    payload.tombstones?.forEach((tombstone) => ids.add(tombstone.id));
+  });
+
+  const entries: VaultEntry[] = [];
+  const tombstones: VaultTombstone[] = [];
+  const conflicts = mergeConflicts(base, local, remote);
+
+  ids.forEach((id) => {
+    const resolution = resolveEntry(
+      id,
+      stateOf(local, id),
+      stateOf(remote, id),
+      base ? stateOf(base, id) : null,
+      now,
+    );
+    if (resolution.state.kind === "entry") {
+      entries.push(resolution.state.entry);
+    } else if (resolution.state.kind === "deleted") {
+      tombstones.push({ id, deletedAt: resolution.state.deletedAt });
+    }
+    if (resolution.conflict) {
+      conflicts.set(id, resolution.conflict);
+    }
+  });
+
+  // Keep local ordering; entries that only exist remotely go to the end.
+  const order = new Map(local.entries.map((entry, index) => [entry.id, index]));
+  entries.sort(
+    (a, b) => (order.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (order.get(b.id) ?? Number.MAX_SAFE_INTEGER),
+  );
+
+  return {
+    ...local,
+    version: Math.max(local.version, remote.version),
+    entries,
+    tombstones: tombstones.filter((tombstone) => now - tombstone.deletedAt <= TOMBSTONE_RETENTION_MS),
+    conflicts: Array.from(conflicts.values()),
+  };
+}
+
+/** Removes an entry and leaves a tombstone so the deletion reaches other devices. */
+export function deleteVaultEntry(payload: VaultPayload, id: string, now = Date.now()): VaultPayload {
+  return {
+    ...payload,
+    entries: payload.entries.filter((entry) => entry.id !== id),
+    tombstones: [
+      ...(payload.tombstones ?? []).filter(
+        (tombstone) => tombstone.id !== id && now - tombstone.deletedAt <= TOMBSTONE_RETENTION_MS,
+      ),
+      { id, deletedAt: now },
+    ],
+    conflicts: payload.conflicts?.filter((conflict) => conflict.id !== id),
+  };
+}
+
+/** Applies the user's choice for a conflict; choosing a deleted side deletes the entry. */
+export function resolveEntryConflict(
+  payload: VaultPayload,
+  id: string,
+  choice: "local" | "remote",
+  now = Date.now(),
+): VaultPayload {
+  const conflict = payload.conflicts?.find((candidate) => candidate.id === id);
+  if (!conflict) {
+    return payload;
+  }
+  const chosen = conflict[choice];
+  if (!chosen) {
+    return deleteVaultEntry(payload, id, now);
+  }
+  const resolved = { ...chosen, updatedAt: now };
+  const exists = payload.entries.some((entry) => entry.id === id);
+  return {
+    ...payload,
+    entries: exists
+      ? payload.entries.map((entry) => (entry.id === id ? resolved : entry))
+      : [resolved, ...payload.entries],
+    tombstones: payload.tombstones?.filter((tombstone) => tombstone.id !== id),
+    conflicts: payload.conflicts?.filter((candidate) => candidate.id !== id),
+  };
+}
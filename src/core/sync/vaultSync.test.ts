@@ -0,0 +1,111 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createVaultKeyring,
+  decryptPayload,
+  encryptPayload,
+  emptyVault,
+  type EncryptedVault,
+  type VaultKeyring,
+  type VaultPayload,
+} from "../crypto/cryptoClient";
+import { persistVault } from "../storage/vaultManager";
+import { clearStoredVault } from "../storage/vaultStorage";
+import type { RemoteVault } from "./syncClient";
+import { deleteVaultEntry } from "./vaultMerge";
+import { syncVault } from "./vaultSync";
+
+const server = vi.hoisted(() => ({ record: null as RemoteVault | null }));
+
+vi.mock("./syncClient", () => ({
+  fetchRemoteVault: async () => server.record,
+  pushRemoteVault: async (_endpoint: unknown, vault: EncryptedVault, baseRevision: number) => {
+    const revision = server.record?.revision ?? 0;
+    if (baseRevision !== revision) {
+      return { status: "conflict", remote: server.record };
+    }
+    server.record = { revision: revision + 1, vault, updatedAt: Date.now() };
+    return { status: "ok", revision: revision + 1 };
+  },
+}));
+
+const ENDPOINT = { serverUrl: "", vaultId: "vault", token: "token" };
+
+function payloadWith(...ids: string[]): VaultPayload {
+  return {
+    version: 2,
+    entries: ids.map((id) => ({
+      id,
+      label: id,
+      username: "alice",
+      password: `${id}-password`,
+      createdAt: 1_700_000_000_000,
+      updatedAt: 1_700_000_000_000,
+    })),
+  };
+}
+
+async function remoteEntryIds(keyring: VaultKeyring): Promise<string[]> {
+  const payload = await decryptPayload(keyring.dataKey, server.record!.vault);
+  return payload.entries.map((entry) => entry.id);
+}
+
+describe("syncVault", () => {
+  let keyring: VaultKeyring;
+
+  beforeAll(async () => {
+    const records = new Map<string, string>();
+    vi.stubGlobal("window", {
+      crypto: globalThis.crypto,
+      localStorage: {
+        getItem: (key: string) => records.get(key) ?? null,
+        setItem: (key: string, value: string) => records.set(key, value),
+        removeItem: (key: string) => records.delete(key),
+      },
+    });
+    keyring = await createVaultKeyring("correct horse battery staple", {
+      algorithm: "PBKDF2",
+      hash: "SHA-256",
+      iterations: 1_000,
+    });
+  });
+
+  beforeEach(async () => {
+    server.record = null;
+    await clearStoredVault();
+  });
+
+  it("adopts the server copy on a device that has never synced", async () => {
+    server.record = {
+      revision: 4,
+      vault: await encryptPayload(keyring, payloadWith("remote")),
+      updatedAt: Date.now(),
+    };
+    const local = emptyVault();
+    await persistVault(keyring, local);
+
+    const result = await syncVault(ENDPOINT, keyring, local);
+
+    expect(result.status).toBe("pulled");
+    expect(result.payload.entries.map((entry) => entry.id)).toEqual(["remote"]);
+  });
+
+  it("keeps a pending delete of the last entry when the server moved on", async () => {
+    const synced = payloadWith("only");
+    await persistVault(keyring, synced);
+    await syncVault(ENDPOINT, keyring, synced);
+    // Another device pushes a newer revision that leaves the entry as it was.
+    server.record = {
+      revision: server.record!.revision + 1,
+      vault: await encryptPayload(keyring, synced),
+      updatedAt: Date.now(),
+    };
+
+    const emptied = deleteVaultEntry(synced, "only");
+    await persistVault(keyring, emptied);
+    const result = await syncVault(ENDPOINT, keyring, emptied);
+
+    expect(result.status).toBe("merged");
+    expect(result.payload.entries).toEqual([]);
+    expect(await remoteEntryIds(keyring)).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  decryptPayload,
+  hydrateExposures,
+  openVault,
+  type EncryptedVault,
+  type VaultKeyring,
+  type VaultPayload,
+} from "../crypto/cryptoClient";
+import { migrateVaultPayload } from "../crypto/vaultMigrations";
+import { persistVault, queueVaultWrite } from "../storage/vaultManager";
+import {
+  loadEncryptedVault,
+  loadSyncState,
+  saveEncryptedVault,
+  saveSyncState,
+  type SyncState,
+} from "../storage/vaultStorage";
+import { fetchRemoteVault, pushRemoteVault, type SyncEndpoint } from "./syncClient";
+import { mergeVaultCopies } from "./vaultMerge";
+
+const MAX_SYNC_ATTEMPTS = 3;
+
+export type VaultSyncStatus = "up-to-date" | "pushed" | "pulled" | "merged";
+
+export interface VaultSyncResult {
+  status: VaultSyncStatus;
+  payload: VaultPayload;
+  keyring: VaultKeyring;
+  revision: number;
+}
+
+interface DecryptedRemote {
+  payload: VaultPayload;
+  /** Set when the remote vault has its own data key and had to be opened with the master password. */
+  keyring?: VaultKeyring;
+}
+
+async function decryptRemote(
+  keyring: VaultKeyring,
+  vault: EncryptedVault,
+  masterPassword?: string,
+): Promise<DecryptedRemote> {
+  let payload = await decryptPayload(keyring.dataKey, vault).catch(() => null);
+  let remoteKeyring: VaultKeyring | undefined;
+  if (!payload) {
+    if (!masterPassword) {
+      throw new Error("The server vault uses a different key. Unlock with the master password to sync.");
+    }
+    const opened = await openVault(masterPassword, vault);
+    payload = opened.payload;
+    remoteKeyring = opened.keyring;
+  }
+  return {
+    payload: normalizePayload(payload),
+    keyring: remoteKeyring,
+  };
+}
+
+function normalizePayload(payload: VaultPayload): VaultPayload {
+  const { payload: migrated } = migrateVaultPayload(payload);
+  return { ...migrated, entries: hydrateExposures(migrated.entries) };
+}
+
+// A device that has never synced and holds nothing of its own can take the server copy as is.
+// Anything else, including a vault emptied by deletions, goes through the three-way merge.
+function isFreshDevice(state: SyncState, payload: VaultPayload): boolean {
+  return (
+    !state.base &&
+    payload.entries.length === 0 &&
+    !payload.tombstones?.length &&
+    !payload.conflicts?.length
+  );
+}
+
+function isSameEnvelope(a: EncryptedVault | null, b: EncryptedVault): boolean {
+  // Every save encrypts the payload blob under a fresh IV.
+  return Boolean(a && a.iv === b.iv && a.cipherText === b.cipherText);
+}
+
+async function decryptBase(keyring: VaultKeyring, base?: EncryptedVault): Promise<VaultPayload | null> {
+  if (!base) {
+    return null;
+  }
+  const payload = await decryptPayload(keyring.dataKey, base).catch(() => null);
+  return payload ? normalizePayload(payload) : null;
+}
+
+/**
+ * Reconciles the local vault with the sync server. Remote changes are adopted
+ * when nothing local is pending or the device has never synced, otherwise both sides are merged entry by entry
+ * against the last synced copy and pushed against the remote revision. Pushes are compare-and-set, so
+ * a concurrent writer makes us pull and retry.
+ *
+ * Pass the master password on unlock so a device can join a vault that was
+ * created elsewhere (different data key); the remote keys then become local.
+ */
+export async function syncVault(
+  endpoint: SyncEndpoint,
+  keyring: VaultKeyring,
+  payload: VaultPayload,
+  masterPassword?: string,
+): Promise<VaultSyncResult> {
+  let currentKeyring = keyring;
+  let currentPayload = payload;
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt += 1) {
+    const state = await loadSyncState();
+    const remote = await fetchRemoteVault(endpoint);
+    let merged = false;
+
+    if (remote && remote.revision !== state.revision) {
+      const decrypted = await decryptRemote(currentKeyring, remote.vault, masterPassword);
+      const pulled =
+        (!state.pending || isFreshDevice(state, currentPayload)) &&
+        (await queueVaultWrite(async () => {
+          // A save may have landed while the remote vault was fetched; merge it instead.
+          const latest = await loadSyncState();
+          if (latest.pending && !isFreshDevice(latest, currentPayload)) {
+            return false;
+          }
+          await saveEncryptedVault(remote.vault);
+          await saveSyncState({ revision: remote.revision, pending: false, base: remote.vault });
+          return true;
+        }));
+      if (pulled) {
+        return {
+          status: "pulled",
+          payload: decrypted.payload,
+          keyring: decrypted.keyring ?? {
+            ...currentKeyring,
+            keySlots: remote.vault.keySlots ?? currentKeyring.keySlots,
+          },
+          revision: remote.revision,
+        };
+      }
+      const base = await decryptBase(currentKeyring, state.base);
+      currentKeyring = decrypted.keyring ?? currentKeyring;
+      currentPayload = mergeVaultCopies(base, currentPayload, decrypted.payload);
+      await persistVault(currentKeyring, currentPayload);
+      merged = true;
+    } else if (remote && !state.pending) {
+      if (!state.base) {
+        await saveSyncState({ ...state, base: remote.vault });
+      }
+      return {
+        status: "up-to-date",
+        payload: currentPayload,
+        keyring: currentKeyring,
+        revision: remote.revision,
+      };
+    }
+
+    const local = await loadEncryptedVault();
+    if (!local) {
+      throw new Error("No local vault to push.");
+    }
+    const pushed = await pushRemoteVault(endpoint, local, remote?.revision ?? 0);
+    if (pushed.status === "conflict") {
+      continue;
+    }
+    // Saves made during the push stay pending; the next sync merges them against the old base.
+    await queueVaultWrite(async () => {
+      if (isSameEnvelope(await loadEncryptedVault(), local)) {
+        await saveSyncState({ revision: pushed.revision, pending: false, base: local });
+      }
+    });
+    return {
+      status: merged ? "merged" : "pushed",
+      payload: currentPayload,
+      keyring: currentKeyring,
+      revision: pushed.revision,
+    };
+  }
+  throw new Error("The vault kept changing on the server. Try syncing again.");
+}
@@ -0,0 +1,92 @@
+const HIBP_ENDPOINT = "https://api.pwnedpasswords.com/range/";
+
+export interface HibpRangeCacheOptions {
+  /** Ranges younger than this are served without asking upstream. */
+  ttlMs?: number;
+  /** Older ranges are still served while upstream fails, up to this age. */
+  staleMs?: number;
+  /** Least recently used ranges are evicted beyond this many (a padded range is ~30 KB). */
+  maxEntries?: number;
+  fetchRange?: (prefix: string) => Promise<string>;
+}
+
+export interface HibpRangeCache {
+  /** The range body for a five-character SHA-1 prefix. */
+  get(prefix: string): Promise<string>;
+}
+
+interface CachedRange {
+  body: string;
+  fetchedAt: number;
+}
+
+async function fetchHibpRange(prefix: string): Promise<string> {
+  const response = await fetch(`${HIBP_ENDPOINT}${prefix}`, {
+    method: "GET",
+    headers: {
+      "Add-Padding": "true",
+      "User-Agent": "Vaultlight Password Manager",
+    },
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`HIBP HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * In-memory TTL cache of Pwned Passwords range responses. Concurrent lookups of
+ * one prefix share a request, and a stale range beats an upstream error.
+ */
+export function createHibpRangeCache(options: HibpRangeCacheOptions = {}): HibpRangeCache {
+  const {
+    ttlMs = 24 * 60 * 60 * 1000,
+    staleMs = 7 * 24 * 60 * 60 * 1000,
+    maxEntries = 2_000,
+    fetchRange = fetchHibpRange,
+  } = options;
+  // Map iteration order doubles as LRU order: hits are re-inserted at the end.
+  const ranges = new Map<string, CachedRange>();
+  const inFlight = new Map<string, Promise<string>>();
+
+  const remember = (prefix: string, range: CachedRange) => {
+    ranges.delete(prefix);
+    ranges.set(prefix, range);
+    while (ranges.size > maxEntries) {
+      const oldest = ranges.keys().next().value;
+      if (oldest === undefined) break;
+      ranges.delete(oldest);
+    }
+  };
+
+  const refresh = async (prefix: string, cached: CachedRange | undefined): Promise<string> => {
+    try {
+      const body = await fetchRange(prefix);
+      remember(prefix, { body, fetchedAt: Date.now() });
+      return body;
+    } catch (error) {
+      if (cached && Date.now() - cached.fetchedAt < staleMs) {
+        remember(prefix, cached);
+        return cached.body;
+      }
+      throw error;
+    } finally {
+      inFlight.delete(prefix);
+    }
+  };
+
+  return {
+    get(prefix: string) {
+      const key = prefix.toUpperCase();
+      const cached = ranges.get(key);
+      if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+        remember(key, cached);
+        return Promise.resolve(cached.body);
+      }
+      const pending = inFlight.get(key) ?? refresh(key, cached);
+      inFlight.set(key, pending);
+      return pending;
+    },
+  };
+}
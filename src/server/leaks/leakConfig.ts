@@ -0,0 +1,140 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { DARK_WEB_SAMPLE } from "../../core/leaks/darkWebSample";
+import type { LeakProvider } from "./leakProvider";
+import { createHashFileProvider, createHashListProvider } from "./providers/hashListProvider";
+import { createPwnedPasswordsProvider } from "./providers/pwnedPasswords";
+import { VAULT_INTEL_SAMPLE } from "./providers/vaultIntel";
+
+/** One entry of the `providers` array in the leak provider config file. */
+export interface LeakProviderConfig {
+  /** A key of the provider type registry. */
+  type: string;
+  /** Label in results and errors; each type has a default. */
+  name?: string;
+  /** Defaults to true. */
+  enabled?: boolean;
+  timeoutMs?: number;
+  /** Type-specific settings, e.g. `path` for `sha256-file`. */
+  [option: string]: unknown;
+}
+
+export type LeakProviderFactory = (config: LeakProviderConfig, timeoutMs: number) => LeakProvider;
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+const DEFAULT_PROVIDERS: LeakProviderConfig[] = [
+  { type: "pwned-passwords" },
+  { type: "dark-web-sample" },
+  { type: "vault-intel" },
+];
+
+function stringOption(config: LeakProviderConfig, key: string): string | undefined {
+  const value = config[key];
+  if (value !== undefined && typeof value !== "string") {
+    throw new Error(`Leak provider "${config.type}": "${key}" must be a string.`);
+  }
+  return value;
+}
+
+const providerTypes = new Map<string, LeakProviderFactory>([
+  [
+    "pwned-passwords",
+    (config, timeoutMs) => {
+      const source =
+        stringOption(config, "source") ?? process.env.VAULTLIGHT_PWNED_PASSWORDS ?? "api";
+      if (source !== "api" && source !== "offline") {
+        throw new Error(`Unknown Pwned Passwords source "${source}".`);
+      }
+      const defaultName = source === "offline" ? "HaveIBeenPwned (offline)" : "HaveIBeenPwned";
+      return createPwnedPasswordsProvider({
+        name: config.name ?? defaultName,
+        timeoutMs,
+        source,
+        indexPath: path.resolve(
+          stringOption(config, "indexPath") ??
+            process.env.VAULTLIGHT_PWNED_PASSWORDS_INDEX ??
+            path.join("storage-cache", "pwned-passwords.idx"),
+        ),
+      });
+    },
+  ],
+  [
+    "dark-web-sample",
+    (config, timeoutMs) =>
+      createHashListProvider(config.name ?? "Dark web sample", DARK_WEB_SAMPLE, timeoutMs),
+  ],
+  [
+    "vault-intel",
+    (config, timeoutMs) =>
+      createHashListProvider(
+        config.name ?? "Vaultlight Threat Intel Feed",
+        VAULT_INTEL_SAMPLE,
+        timeoutMs,
+      ),
+  ],
+  [
+    "sha256-file",
+    (config, timeoutMs) => {
+      const filePath = stringOption(config, "path");
+      if (!filePath) {
+        throw new Error(`Leak provider "sha256-file" needs a "path".`);
+      }
+      const severity = stringOption(config, "severity") ?? "high";
+      if (severity !== "low" && severity !== "medium" && severity !== "high") {
+        throw new Error(`Unknown severity "${severity}".`);
+      }
+      return createHashFileProvider({
+        name: config.name ?? path.basename(filePath),
+        timeoutMs,
+        path: path.resolve(filePath),
+        description: stringOption(config, "description") ?? "Found in an internal breach corpus",
+        severity,
+      });
+    },
+  ],
+]);
+
+let cached: LeakProvider[] | undefined;
+
+/** Makes a provider type available to the config file, e.g. one for an internal breach API. */
+export function registerLeakProviderType(type: string, factory: LeakProviderFactory) {
+  providerTypes.set(type, factory);
+  cached = undefined;
+}
+
+/**
+ * `VAULTLIGHT_LEAK_PROVIDERS` may point to a JSON file `{ "providers": [...] }`
+ * of LeakProviderConfig; without it the built-in Pwned Passwords, dark web
+ * sample and threat intel providers run with a five-second timeout each.
+ */
+export function getLeakProviders(): LeakProvider[] {
+  if (cached) {
+    return cached;
+  }
+  const configPath = process.env.VAULTLIGHT_LEAK_PROVIDERS;
+  let configs = DEFAULT_PROVIDERS;
+  if (configPath) {
+    const parsed = JSON.parse(readFileSync(path.resolve(configPath), "utf8")) as {
+      providers?: LeakProviderConfig[];
+    };
+    if (!Array.isArray(parsed.providers)) {
+      throw new Error(`${configPath} has no "providers" array.`);
+    }
+    configs = parsed.providers;
+  }
+  cached = configs
+    .filter((config) => config.enabled !== false)
+    .map((config) => {
+      const factory = providerTypes.get(config.type);
+      if (!factory) {
+        throw new Error(`Unknown leak provider type "${config.type}".`);
+      }
+      const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      if (typeof timeoutMs !== "number" || timeoutMs <= 0) {
+        throw new Error(`Leak provider "${config.type}": "timeoutMs" must be a positive number.`);
+      }
+      return factory(config, timeoutMs);
+    });
+  return cached;
+}
@@ -0,0 +1,102 @@
+import type {
+  ExposureProviderResult,
+  ExposureSource,
+  PasswordExposure,
+} from "../../core/crypto/cryptoClient";
+
+/** `sha1` is the k-anonymity pair (five-digit prefix plus suffix); `sha256` the full hash. */
+export type LeakHashKind = "sha1" | "sha256";
+
+export interface LeakLookupHashes {
+  sha1Prefix: string;
+  sha1Suffix: string;
+  sha256Hash: string;
+}
+
+export interface LeakProvider {
+  name: string;
+  /** The hashes `lookup` reads; providers without them are skipped. */
+  hashes: LeakHashKind[];
+  /** The lookup counts as failed after this long. */
+  timeoutMs: number;
+  /** Matches in this provider's data, empty when the password is not in it. */
+  lookup(hashes: Partial<LeakLookupHashes>): Promise<ExposureSource[]>;
+}
+
+function pickHashes(kinds: LeakHashKind[], hashes: LeakLookupHashes): Partial<LeakLookupHashes> {
+  const picked: Partial<LeakLookupHashes> = {};
+  if (kinds.includes("sha1")) {
+    picked.sha1Prefix = hashes.sha1Prefix;
+    picked.sha1Suffix = hashes.sha1Suffix;
+  }
+  if (kinds.includes("sha256")) {
+    picked.sha256Hash = hashes.sha256Hash;
+  }
+  return picked;
+}
+
+function withTimeout<T>(task: Promise<T>, timeoutMs: number): Promise<T | "timeout"> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timeoutId = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+  return Promise.race([task, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+async function runProvider(
+  provider: LeakProvider,
+  hashes: LeakLookupHashes,
+): Promise<{ sources: ExposureSource[]; result: ExposureProviderResult }> {
+  const startedAt = Date.now();
+  const report = (status: ExposureProviderResult["status"], error?: string) => ({
+    provider: provider.name,
+    status,
+    ...(error ? { error } : {}),
+    durationMs: Date.now() - startedAt,
+  });
+  try {
+    // Each provider only ever sees the hashes it declared.
+    const outcome = await withTimeout(
+      provider.lookup(pickHashes(provider.hashes, hashes)),
+      provider.timeoutMs,
+    );
+    if (outcome === "timeout") {
+      const message = `No answer within ${provider.timeoutMs} ms.`;
+      return { sources: [], result: report("timeout", message) };
+    }
+    return { sources: outcome, result: report(outcome.length > 0 ? "match" : "clean") };
+  } catch (error) {
+    return {
+      sources: [],
+      result: report("error", error instanceof Error ? error.message : String(error)),
+    };
+  }
+}
+
+/** Asks all providers in parallel; failures and timeouts are reported per provider, never thrown. */
+export async function checkLeakProviders(
+  providers: LeakProvider[],
+  hashes: LeakLookupHashes,
+): Promise<PasswordExposure> {
+  const outcomes = await Promise.all(providers.map((provider) => runProvider(provider, hashes)));
+  const sources = outcomes.flatMap((outcome) => outcome.sources);
+  const results = outcomes.map((outcome) => outcome.result);
+  const errors = results
+    .filter((result) => result.error)
+    .map((result) => `${result.provider}: ${result.error}`);
+
+  let status: PasswordExposure["status"] = "safe";
+  if (sources.some((source) => source.severity === "high")) {
+    status = "breached";
+  } else if (sources.length > 0 || errors.length > 0) {
+    status = "warning";
+  }
+
+  return {
+    status,
+    sources,
+    errors,
+    providers: results,
+    lastChecked: Date.now(),
+  };
+}
@@ -0,0 +1,98 @@
+import { promises as fs } from "fs";
+import type { ExposureSource } from "../../../core/crypto/cryptoClient";
+import type { LeakProvider } from "../leakProvider";
+
+export interface HashListRecord {
+  /** Lowercase hex SHA-256. */
+  hash: string;
+  description: string;
+  /** Shown as the match's provider; defaults to the provider name. */
+  source?: string;
+  severity: ExposureSource["severity"];
+  matches?: number;
+}
+
+function toSource(providerName: string, record: HashListRecord): ExposureSource {
+  return {
+    provider: record.source ?? providerName,
+    description: record.description,
+    matches: record.matches ?? 1,
+    severity: record.severity,
+  };
+}
+
+/** A provider over records kept in memory, such as the bundled sample datasets. */
+export function createHashListProvider(
+  name: string,
+  records: HashListRecord[],
+  timeoutMs: number,
+): LeakProvider {
+  return {
+    name,
+    hashes: ["sha256"],
+    timeoutMs,
+    async lookup({ sha256Hash }) {
+      const hash = sha256Hash?.toLowerCase();
+      return records
+        .filter((record) => record.hash === hash)
+        .map((record) => toSource(name, record));
+    },
+  };
+}
+
+export interface HashFileProviderOptions {
+  name: string;
+  timeoutMs: number;
+  /** One lowercase or uppercase hex SHA-256 per line, optionally followed by `:count`. */
+  path: string;
+  description: string;
+  severity: ExposureSource["severity"];
+}
+
+/**
+ * A provider over a plain hash file, e.g. an internal breach corpus. The file
+ * is read into memory on first use, so it suits corpora of up to a few million hashes.
+ */
+export function createHashFileProvider(options: HashFileProviderOptions): LeakProvider {
+  let loaded: Promise<Map<string, number>> | null = null;
+
+  const load = () => {
+    loaded ??= fs
+      .readFile(options.path, "utf8")
+      .then((text) => {
+        const counts = new Map<string, number>();
+        text.split("\n").forEach((line) => {
+          const [hash, count] = line.trim().split(":");
+          if (/^[0-9a-f]{64}$/i.test(hash ?? "")) {
+            counts.set(hash.toLowerCase(), count ? parseInt(count, 10) || 1 : 1);
+          }
+        });
+        return counts;
+      })
+      .catch((error) => {
+        loaded = null;
+        throw error;
+      });
+    return loaded;
+  };
+
+  return {
+    name: options.name,
+    hashes: ["sha256"],
+    timeoutMs: options.timeoutMs,
+    async lookup({ sha256Hash }) {
+      const matches = sha256Hash ? (await load()).get(sha256Hash.toLowerCase()) : undefined;
+      if (!matches) {
+        return [];
+      }
+      return [
+        {
+          provider: options.name,
+          description: options.description,
+          matches,
+          severity: options.severity,
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createOfflinePwnedPasswords } from "./offlinePwnedPasswords";
+
+const run = promisify(execFile);
+const BUILD_SCRIPT = path.resolve(__dirname, "../../../../scripts/build-pwned-index.mjs");
+
+const FIXTURE = [
+  "0000000000000000000000000000000000000001:3",
+  "00000FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF:7",
+  "21BD10018A45C4D1DEF81644B54AB7F969B88D65:42",
+  "21BD1FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF:1",
+  "FFFFF00000000000000000000000000000000000:9",
+  "FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF:12",
+];
+
+describe("offline Pwned Passwords index", () => {
+  let directory: string;
+
+  async function buildIndex(lines: string[], name: string): Promise<string> {
+    const input = path.join(directory, `${name}.txt`);
+    const output = path.join(directory, `${name}.idx`);
+    await fs.writeFile(input, `${lines.join("\n")}\n`);
+    await run(process.execPath, [BUILD_SCRIPT, input, output]);
+    return output;
+  }
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "pwned-index-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads back the ranges the build script wrote", async () => {
+    const index = createOfflinePwnedPasswords(await buildIndex(FIXTURE, "sorted"));
+
+    expect(await index.range("21bd1")).toBe(
+      "0018A45C4D1DEF81644B54AB7F969B88D65:42\r\nFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF:1",
+    );
+    expect(await index.range("00000")).toBe(
+      "00000000000000000000000000000000001:3\r\nFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF:7",
+    );
+    expect(await index.range("12345")).toBe("");
+    expect(await index.range("FFFFF")).toBe(
+      "00000000000000000000000000000000000:9\r\nFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF:12",
+    );
+  });
+
+  it("refuses input that is not ordered by hash", async () => {
+    const shuffled = [FIXTURE[2], FIXTURE[0]];
+
+    await expect(buildIndex(shuffled, "shuffled")).rejects.toThrow(/out of order/);
+    await expect(fs.access(path.join(directory, "shuffled.idx"))).rejects.toThrow();
+  });
+
+  it("rejects a file without the index header", async () => {
+    const file = path.join(directory, "bogus.idx");
+    await fs.writeFile(file, Buffer.alloc(64, "x"));
+
+    await expect(createOfflinePwnedPasswords(file).range("21BD1")).rejects.toThrow(
+      /not a Pwned Passwords index/,
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { promises as fs } from "fs";
+
+/**
+ * Index format written by `scripts/build-pwned-index.mjs` (keep both in step):
+ *
+ * - header: magic `VLPWND01` (8 bytes), record count (uint32 BE), 4 reserved bytes
+ * - prefix table: 2^20 + 1 uint32 BE record numbers, where the records of each
+ *   five-hex-digit SHA-1 prefix start; the last one is the record count
+ * - records: 20-byte SHA-1 plus uint32 BE count, sorted by hash
+ */
+export const PWNED_INDEX_MAGIC = "VLPWND01";
+const HEADER_BYTES = 16;
+const PREFIX_COUNT = 1 << 20;
+const TABLE_BYTES = (PREFIX_COUNT + 1) * 4;
+const RECORD_BYTES = 24;
+
+export interface OfflinePwnedPasswords {
+  /** The range for a SHA-1 prefix in the Pwned Passwords API format (`SUFFIX:COUNT` lines). */
+  range(prefix: string): Promise<string>;
+}
+
+async function readAt(file: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error("Pwned Passwords index is truncated.");
+  }
+  return buffer;
+}
+
+/** Reads ranges straight from the index on disk; only the handle stays open. */
+export function createOfflinePwnedPasswords(indexPath: string): OfflinePwnedPasswords {
+  let opened: Promise<fs.FileHandle> | null = null;
+
+  const open = () => {
+    opened ??= (async () => {
+      const file = await fs.open(indexPath, "r");
+      const header = await readAt(file, 0, HEADER_BYTES);
+      if (header.toString("latin1", 0, 8) !== PWNED_INDEX_MAGIC) {
+        await file.close();
+        throw new Error(`${indexPath} is not a Pwned Passwords index.`);
+      }
+      return file;
+    })().catch((error) => {
+      // Let the next request try again, e.g. once the index has been built.
+      opened = null;
+      throw error;
+    });
+    return opened;
+  };
+
+  return {
+    async range(prefix: string) {
+      if (!/^[0-9a-f]{5}$/i.test(prefix)) {
+        throw new Error("Invalid SHA-1 prefix.");
+      }
+      const file = await open();
+      const slot = parseInt(prefix, 16);
+      const bounds = await readAt(file, HEADER_BYTES + slot * 4, 8);
+      const start = bounds.readUInt32BE(0);
+      const end = bounds.readUInt32BE(4);
+      if (end <= start) {
+        return "";
+      }
+      const records = await readAt(
+        file,
+        HEADER_BYTES + TABLE_BYTES + start * RECORD_BYTES,
+        (end - start) * RECORD_BYTES,
+      );
+      const lines: string[] = [];
+      for (let offset = 0; offset < records.length; offset += RECORD_BYTES) {
+        const hash = records.toString("hex", offset, offset + 20).toUpperCase();
+        lines.push(`${hash.slice(5)}:${records.readUInt32BE(offset + 20)}`);
+      }
+      return lines.join("\r\n");
+    },
+  };
+}
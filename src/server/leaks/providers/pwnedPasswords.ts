@@ -0,0 +1,59 @@
+import type { LeakProvider } from "../leakProvider";
+import { createHibpRangeCache } from "../hibpRangeCache";
+import { createOfflinePwnedPasswords } from "./offlinePwnedPasswords";
+
+export interface PwnedPasswordsProviderOptions {
+  name: string;
+  timeoutMs: number;
+  /** `api` asks api.pwnedpasswords.com; `offline` reads an index built by `npm run build:pwned-index`. */
+  source: "api" | "offline";
+  /** Required for the `offline` source. */
+  indexPath?: string;
+}
+
+export function createPwnedPasswordsProvider(options: PwnedPasswordsProviderOptions): LeakProvider {
+  let range: (prefix: string) => Promise<string>;
+  if (options.source === "offline") {
+    if (!options.indexPath) {
+      throw new Error("The offline Pwned Passwords source needs an index path.");
+    }
+    const index = createOfflinePwnedPasswords(options.indexPath);
+    range = (prefix) => index.range(prefix);
+  } else {
+    const ranges = createHibpRangeCache();
+    range = (prefix) => ranges.get(prefix);
+  }
+  const description =
+    options.source === "offline"
+      ? "Detected in the local copy of the Pwned Passwords dataset"
+      : "Detected in the Pwned Passwords dataset";
+
+  return {
+    name: options.name,
+    hashes: ["sha1"],
+    timeoutMs: options.timeoutMs,
+    async lookup({ sha1Prefix, sha1Suffix }) {
+      if (!sha1Prefix || !sha1Suffix) {
+        return [];
+      }
+      const suffix = sha1Suffix.toUpperCase();
+      const matchLine = (await range(sha1Prefix.toUpperCase()))
+        .split("\n")
+        .map((line) => line.trim())
+        .find((line) => line.startsWith(suffix));
+      const count = matchLine ? parseInt(matchLine.split(":")[1] ?? "0", 10) : 0;
+      // Padded responses list made-up suffixes with a count of zero.
+      if (!count) {
+        return [];
+      }
+      return [
+        {
+          provider: options.name,
+          description,
+          matches: count,
+          severity: count > 1000 ? "high" : "medium",
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { EncryptedVault } from "../../core/crypto/cryptoClient";
+import type { SyncRecord, SyncStore, SyncWriteResult } from "./syncStore";
+
+/**
+ * One JSON file per vault. Writes go to a temp file and are renamed into
+ * place; a per-vault queue serializes compare-and-set within this process.
+ */
+export function createFileSyncStore(directory: string): SyncStore {
+  const queues = new Map<string, Promise<unknown>>();
+
+  const fileFor = (vaultId: string) => path.join(directory, `${vaultId}.json`);
+
+  const read = async (vaultId: string): Promise<SyncRecord | null> => {
+    try {
+      const raw = await fs.readFile(fileFor(vaultId), "utf8");
+      return JSON.parse(raw) as SyncRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const exclusive = <T>(vaultId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(vaultId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    queues.set(vaultId, next);
+    return next.finally(() => {
+      if (queues.get(vaultId) === next) {
+        queues.delete(vaultId);
+      }
+    });
+  };
+
+  return {
+    read,
+    write(vaultId: string, vault: EncryptedVault, baseRevision: number) {
+      return exclusive(vaultId, async (): Promise<SyncWriteResult> => {
+        const current = await read(vaultId);
+        if ((current?.revision ?? 0) !== baseRevision) {
+          return { status: "conflict", current };
+        }
+        const record: SyncRecord = {
+          revision: baseRevision + 1,
+          vault,
+          updatedAt: Date.now(),
+        };
+        await fs.mkdir(directory, { recursive: true });
+        const target = fileFor(vaultId);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(record), "utf8");
+        await fs.rename(temp, target);
+        return { status: "ok", record };
+      });
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import type { EncryptedVault } from "../../core/crypto/cryptoClient";
+import type { SyncRecord, SyncStore, SyncWriteResult } from "./syncStore";
+
+/** Keeps records in process memory; for development and tests only. */
+export function createMemorySyncStore(): SyncStore {
+  const records = new Map<string, SyncRecord>();
+  return {
+    async read(vaultId: string) {
+      return records.get(vaultId) ?? null;
+    },
+    async write(vaultId: string, vault: EncryptedVault, baseRevision: number): Promise<SyncWriteResult> {
+      const current = records.get(vaultId) ?? null;
+      if ((current?.revision ?? 0) !== baseRevision) {
+        return { status: "conflict", current };
+      }
+      const record: SyncRecord = {
+        revision: baseRevision + 1,
+        vault,
+        updatedAt: Date.now(),
+      };
+      records.set(vaultId, record);
+      return { status: "ok", record };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import path from "path";
+import { createFileSyncStore } from "./fileSyncStore";
+import { createMemorySyncStore } from "./memorySyncStore";
+import type { SyncStore } from "./syncStore";
+
+export const VAULT_ID_PATTERN = /^[a-z0-9-]{16,64}$/;
+
+export interface SyncServerConfig {
+  store: SyncStore;
+  /** Shared secret clients send as `Authorization: Bearer <token>`. */
+  token: string;
+  /** Web app origins on other hosts that may call the sync routes. */
+  allowedOrigins: string[];
+}
+
+let cached: SyncServerConfig | null | undefined;
+
+/**
+ * Sync is off unless `VAULTLIGHT_SYNC_STORE` (`file` or `memory`) and
+ * `VAULTLIGHT_SYNC_TOKEN` are set. File stores write to
+ * `VAULTLIGHT_SYNC_DIR` (default `storage-cache/sync`). Apps served from other
+ * origins must be listed in `VAULTLIGHT_SYNC_ALLOWED_ORIGINS`, comma-separated.
+ */
+export function getSyncServerConfig(): SyncServerConfig | null {
+  if (cached !== undefined) {
+    return cached;
+  }
+  const kind = process.env.VAULTLIGHT_SYNC_STORE;
+  const token = process.env.VAULTLIGHT_SYNC_TOKEN;
+  if (!kind || !token) {
+    cached = null;
+    return cached;
+  }
+  let store: SyncStore;
+  if (kind === "file") {
+    store = createFileSyncStore(
+      path.resolve(process.env.VAULTLIGHT_SYNC_DIR ?? path.join("storage-cache", "sync")),
+    );
+  } else if (kind === "memory") {
+    store = createMemorySyncStore();
+  } else {
+    throw new Error(`Unknown VAULTLIGHT_SYNC_STORE "${kind}".`);
+  }
+  const allowedOrigins = (process.env.VAULTLIGHT_SYNC_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  cached = { store, token, allowedOrigins };
+  return cached;
+}
@@ -0,0 +1,23 @@
+import type { EncryptedVault } from "../../core/crypto/cryptoClient";
+
+/** What the server keeps per vault. It never sees anything but ciphertext. */
+export interface SyncRecord {
+  revision: number;
+  vault: EncryptedVault;
+  updatedAt: number;
+}
+
+export type SyncWriteResult =
+  | { status: "ok"; record: SyncRecord }
+  | { status: "conflict"; current: SyncRecord | null };
+
+/**
+ * Storage behind `/api/sync`. Implementations must make `write` a
+ * compare-and-set on the revision: it only succeeds when `baseRevision`
+ * matches the stored revision (0 for a vault that does not exist yet).
+ * A SQLite or other database store only needs to implement this interface.
+ */
+export interface SyncStore {
+  read(vaultId: string): Promise<SyncRecord | null>;
+  write(vaultId: string, vault: EncryptedVault, baseRevision: number): Promise<SyncWriteResult>;
+}
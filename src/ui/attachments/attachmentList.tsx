@@ -0,0 +1,55 @@
+import type { AttachmentRef } from "../../core/crypto/cryptoClient";
+import { attachmentPreviewKind, formatBytes } from "../../core/attachments/attachments";
+
+interface AttachmentListProps {
+  attachments: AttachmentRef[];
+  onPreview: (attachment: AttachmentRef) => void;
+  onDownload: (attachment: AttachmentRef) => void;
+  onRemove: (attachment: AttachmentRef) => void;
+}
+
+export function AttachmentList({
+  attachments,
+  onPreview,
+  onDownload,
+  onRemove,
+}: AttachmentListProps) {
+  return (
+    <div className="vault-entry__row">
+      <span className="label">Attachments</span>
+      <ul className="vault-attachments">
+        {attachments.map((attachment) => (
+          <li key={attachment.id} className="vault-attachment">
+            <span className="vault-attachment__name">{attachment.name}</span>
+            <span className="vault-attachment__size">{formatBytes(attachment.size)}</span>
+            <div className="vault-entry__actions">
+              {attachmentPreviewKind(attachment) && (
+                <button
+                  type="button"
+                  className="vault-button ghost"
+                  onClick={() => onPreview(attachment)}
+                >
+                  Preview
+                </button>
+              )}
+              <button
+                type="button"
+                className="vault-button ghost"
+                onClick={() => onDownload(attachment)}
+              >
+                Download
+              </button>
+              <button
+                type="button"
+                className="vault-button ghost"
+                onClick={() => onRemove(attachment)}
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
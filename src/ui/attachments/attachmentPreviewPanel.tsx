@@ -0,0 +1,26 @@
+import type { AttachmentPreview } from "./useAttachments";
+
+interface AttachmentPreviewPanelProps {
+  preview: AttachmentPreview;
+  onClose: () => void;
+}
+
+export function AttachmentPreviewPanel({ preview, onClose }: AttachmentPreviewPanelProps) {
+  return (
+    <div className="vault-attachment-preview">
+      <header>
+        <span>{preview.name}</span>
+        <button type="button" className="vault-button ghost" onClick={onClose}>
+          Close
+        </button>
+      </header>
+      {preview.kind === "image" && (
+        // Object URLs of decrypted files cannot go through next/image.
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={preview.url} alt={preview.name} />
+      )}
+      {preview.kind === "pdf" && <iframe src={preview.url} title={preview.name} />}
+      {preview.kind === "text" && <pre>{preview.text}</pre>}
+    </div>
+  );
+}
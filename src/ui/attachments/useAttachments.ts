@@ -0,0 +1,206 @@
+import { useCallback, useRef, useState, type ChangeEvent, type MutableRefObject } from "react";
+import type { AttachmentRef, VaultKeyring, VaultPayload } from "../../core/crypto/cryptoClient";
+import {
+  addAttachment,
+  attachmentPreviewKind,
+  pruneAttachments,
+  readAttachment,
+  type AttachmentPreviewKind,
+} from "../../core/attachments/attachments";
+import { downloadFile } from "../shared/download";
+import type { AddToast, ApplyVaultUpdate } from "../shared/types";
+
+export interface AttachmentPreview {
+  entryId: string;
+  attachmentId: string;
+  name: string;
+  kind: AttachmentPreviewKind;
+  /** Object URL for images and PDFs; revoked when the preview closes. */
+  url?: string;
+  text?: string;
+}
+
+interface AttachmentOptions {
+  keyringRef: MutableRefObject<VaultKeyring | null>;
+  vaultRef: MutableRefObject<VaultPayload | null>;
+  applyVaultUpdate: ApplyVaultUpdate;
+  addToast: AddToast;
+  registerInteraction: () => void;
+}
+
+export function useAttachments({
+  keyringRef,
+  vaultRef,
+  applyVaultUpdate,
+  addToast,
+  registerInteraction,
+}: AttachmentOptions) {
+  const [preview, setPreview] = useState<AttachmentPreview | null>(null);
+  const [attachingEntryId, setAttachingEntryId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const targetRef = useRef<string | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  const discardUnused = useCallback(async () => {
+    if (!keyringRef.current || !vaultRef.current) return;
+    try {
+      await pruneAttachments(keyringRef.current, vaultRef.current);
+    } catch (error) {
+      // Leftover files are harmless: they stay encrypted and are pruned next time.
+      console.error(error);
+    }
+  }, [keyringRef, vaultRef]);
+
+  const closePreview = useCallback(() => {
+    if (previewUrlRef.current) {
+      URL.revokeObjectURL(previewUrlRef.current);
+      previewUrlRef.current = null;
+    }
+    setPreview(null);
+  }, []);
+
+  const pickFiles = useCallback((entryId: string) => {
+    targetRef.current = entryId;
+    inputRef.current?.click();
+  }, []);
+
+  const handleFileChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      event.target.value = "";
+      const entryId = targetRef.current;
+      const entry = vaultRef.current?.entries.find((item) => item.id === entryId);
+      if (!entryId || !entry || files.length === 0) return;
+      setAttachingEntryId(entryId);
+      const added: AttachmentRef[] = [];
+      try {
+        for (const file of files) {
+          try {
+            added.push(
+              await addAttachment(
+                { ...entry, attachments: [...(entry.attachments ?? []), ...added] },
+                file,
+              ),
+            );
+          } catch (error) {
+            console.error(error);
+            addToast(
+              error instanceof Error ? error.message : `"${file.name}" could not be attached.`,
+              "error",
+            );
+          }
+        }
+        if (added.length === 0) return;
+        const now = Date.now();
+        await applyVaultUpdate((current) => ({
+          ...current,
+          entries: current.entries.map((existing) =>
+            existing.id === entryId
+              ? {
+                  ...existing,
+                  attachments: [...(existing.attachments ?? []), ...added],
+                  updatedAt: now,
+                }
+              : existing,
+          ),
+        }));
+        addToast(
+          added.length === 1 ? `"${added[0].name}" attached.` : `${added.length} files attached.`,
+          "success",
+        );
+      } catch (error) {
+        console.error(error);
+        addToast("Attachment could not be saved.", "error");
+      } finally {
+        setAttachingEntryId(null);
+      }
+    },
+    [addToast, applyVaultUpdate, vaultRef],
+  );
+
+  const download = useCallback(
+    async (attachment: AttachmentRef) => {
+      try {
+        downloadFile(attachment.name, await readAttachment(attachment), attachment.mimeType);
+        registerInteraction();
+      } catch (error) {
+        console.error(error);
+        addToast(
+          error instanceof Error ? error.message : "Attachment could not be opened.",
+          "error",
+        );
+      }
+    },
+    [addToast, registerInteraction],
+  );
+
+  const openPreview = useCallback(
+    async (entryId: string, attachment: AttachmentRef) => {
+      const kind = attachmentPreviewKind(attachment);
+      if (!kind) return;
+      try {
+        const blob = await readAttachment(attachment);
+        closePreview();
+        const next: AttachmentPreview = {
+          entryId,
+          attachmentId: attachment.id,
+          name: attachment.name,
+          kind,
+        };
+        if (kind === "text") {
+          next.text = await blob.text();
+        } else {
+          next.url = URL.createObjectURL(blob);
+          previewUrlRef.current = next.url;
+        }
+        setPreview(next);
+        registerInteraction();
+      } catch (error) {
+        console.error(error);
+        addToast(
+          error instanceof Error ? error.message : "Attachment could not be opened.",
+          "error",
+        );
+      }
+    },
+    [addToast, closePreview, registerInteraction],
+  );
+
+  const remove = useCallback(
+    async (entryId: string, attachment: AttachmentRef) => {
+      if (!window.confirm(`Remove "${attachment.name}" from this entry?`)) return;
+      if (preview?.attachmentId === attachment.id) {
+        closePreview();
+      }
+      const now = Date.now();
+      await applyVaultUpdate((current) => ({
+        ...current,
+        entries: current.entries.map((existing) =>
+          existing.id === entryId
+            ? {
+                ...existing,
+                attachments: existing.attachments?.filter((item) => item.id !== attachment.id),
+                updatedAt: now,
+              }
+            : existing,
+        ),
+      }));
+      await discardUnused();
+      addToast("Attachment removed.", "info");
+    },
+    [addToast, applyVaultUpdate, closePreview, discardUnused, preview],
+  );
+
+  return {
+    inputRef,
+    preview,
+    attachingEntryId,
+    pickFiles,
+    handleFileChange,
+    download,
+    openPreview,
+    closePreview,
+    remove,
+    discardUnused,
+  };
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, type MutableRefObject } from "react";
+import type { VaultPayload } from "../../core/crypto/cryptoClient";
+import {
+  LEAK_RESCAN_INTERVAL_MS,
+  applyLeakRescan,
+  findStaleEntries,
+  rescanLeaks,
+} from "../../core/leaks/leakRescan";
+import type { ApplyVaultUpdate } from "../shared/types";
+
+const FIRST_RESCAN_DELAY_MS = 30_000;
+
+interface LeakRescanOptions {
+  /** Unlocked with leak checks turned on. */
+  enabled: boolean;
+  vaultRef: MutableRefObject<VaultPayload | null>;
+  applyVaultUpdate: ApplyVaultUpdate;
+  markChecking: (entryIds: string[], checking: boolean) => void;
+}
+
+/**
+ * Re-checks stale breach results in the background: shortly after unlocking, then hourly.
+ * `rescanNow` starts a pass right away, e.g. for imported entries that were never checked.
+ */
+export function useLeakRescan({
+  enabled,
+  vaultRef,
+  applyVaultUpdate,
+  markChecking,
+}: LeakRescanOptions) {
+  const runningRef = useRef(false);
+  // A pass requested while another runs starts once that one is done.
+  const requestedRef = useRef(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const runLeakRescan = useCallback(
+    async (signal: AbortSignal): Promise<void> => {
+      if (runningRef.current) {
+        requestedRef.current = true;
+        return;
+      }
+      runningRef.current = true;
+      try {
+        do {
+          requestedRef.current = false;
+          const stale = vaultRef.current ? findStaleEntries(vaultRef.current.entries) : [];
+          if (stale.length === 0) continue;
+          const ids = stale.map((entry) => entry.id);
+          markChecking(ids, true);
+          try {
+            const results = await rescanLeaks(stale, { signal });
+            if (!signal.aborted && results.length > 0) {
+              await applyVaultUpdate((current) => applyLeakRescan(current, results), {
+                background: true,
+              });
+            }
+          } catch (error) {
+            console.error(error);
+          } finally {
+            markChecking(ids, false);
+          }
+        } while (requestedRef.current && !signal.aborted);
+      } finally {
+        runningRef.current = false;
+      }
+    },
+    [applyVaultUpdate, markChecking, vaultRef],
+  );
+
+  const rescanNow = useCallback(() => {
+    const controller = controllerRef.current;
+    if (controller) {
+      void runLeakRescan(controller.signal);
+    }
+  }, [runLeakRescan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const run = () => void runLeakRescan(controller.signal);
+    const timeoutId = window.setTimeout(run, FIRST_RESCAN_DELAY_MS);
+    const interval = window.setInterval(run, LEAK_RESCAN_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      controllerRef.current = null;
+      requestedRef.current = false;
+      window.clearTimeout(timeoutId);
+      window.clearInterval(interval);
+    };
+  }, [enabled, runLeakRescan]);
+
+  return { rescanNow };
+}
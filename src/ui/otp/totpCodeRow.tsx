@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from "react";
+import type { TotpConfig } from "../../core/crypto/cryptoClient";
+import { generateTotp, type TotpCode } from "../../core/otp/totp";
+
+interface TotpCodeRowProps {
+  totp: TotpConfig;
+  onCopy: (code: string) => void;
+}
+
+/** Shows the current one-time code; it is only generated while the row is on screen. */
+export function TotpCodeRow({ totp, onCopy }: TotpCodeRowProps) {
+  const rowRef = useRef<HTMLDivElement | null>(null);
+  const [onScreen, setOnScreen] = useState(false);
+  const [current, setCurrent] = useState<TotpCode | null>(null);
+
+  useEffect(() => {
+    const row = rowRef.current;
+    if (!row || typeof IntersectionObserver === "undefined") {
+      setOnScreen(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting));
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!onScreen) {
+      setCurrent(null);
+      return;
+    }
+    let cancelled = false;
+    const tick = () =>
+      generateTotp(totp)
+        .then((code) => {
+          if (!cancelled) {
+            setCurrent(code);
+          }
+        })
+        .catch((error) => console.error("Vaultlight: failed to generate one-time code.", error));
+    void tick();
+    // Refresh every second so the countdown stays current.
+    const interval = window.setInterval(tick, 1_000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [onScreen, totp]);
+
+  return (
+    <div ref={rowRef} className="vault-entry__row">
+      <span className="label">One-time code</span>
+      <div className="value">
+        <span className="vault-entry__totp">{current?.code ?? "······"}</span>
+        <div className="vault-entry__actions">
+          {current && (
+            <span className="vault-entry__countdown">
+              {Math.ceil(current.remainingMs / 1000)}s
+            </span>
+          )}
+          <button
+            type="button"
+            className="vault-button ghost"
+            disabled={!current}
+            onClick={() => current && onCopy(current.code)}
+          >
+            Copy
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import type { PasskeySummary } from "../../core/storage/vaultManager";
+import { formatTimestamp } from "../shared/format";
+
+interface PasskeyCardProps {
+  passkeys: PasskeySummary[];
+  supported: boolean;
+  isEnrolling: boolean;
+  /** Resolves to whether the passkey was added. */
+  onEnroll: (label: string) => Promise<boolean>;
+  onRemove: (passkey: PasskeySummary) => void;
+}
+
+export function PasskeyCard({
+  passkeys,
+  supported,
+  isEnrolling,
+  onEnroll,
+  onRemove,
+}: PasskeyCardProps) {
+  const [label, setLabel] = useState("");
+
+  const handleEnroll = async () => {
+    if (await onEnroll(label)) {
+      setLabel("");
+    }
+  };
+
+  return (
+    <div className="vault-card vault-security">
+      <h3>Passkey unlock</h3>
+      <p>
+        {supported
+          ? "Unlock with Touch ID, Windows Hello or another platform passkey. The master password keeps working as the fallback."
+          : "This browser has no platform authenticator with WebAuthn support."}
+      </p>
+      {passkeys.length > 0 && (
+        <ul className="vault-passkeys">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id}>
+              <span>
+                {passkey.label} · added {formatTimestamp(passkey.createdAt)}
+              </span>
+              <button
+                type="button"
+                className="vault-button ghost"
+                onClick={() => onRemove(passkey)}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {supported && (
+        <>
+          <div className="vault-form__group">
+            <label htmlFor="passkey-label">Passkey name</label>
+            <input
+              id="passkey-label"
+              type="text"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              placeholder="e.g. Work laptop"
+            />
+          </div>
+          <div className="vault-form__actions">
+            <button
+              type="button"
+              className="vault-button secondary"
+              onClick={handleEnroll}
+              disabled={isEnrolling}
+            >
+              {isEnrolling ? "Waiting for passkey..." : "Add passkey"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
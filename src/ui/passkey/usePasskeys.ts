@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState, type MutableRefObject } from "react";
+import type { VaultKeyring } from "../../core/crypto/cryptoClient";
+import { isPasskeyUnlockSupported } from "../../core/passkey/webauthnPrf";
+import {
+  enrollPasskey,
+  loadPasskeys,
+  removePasskey,
+  type PasskeySummary,
+} from "../../core/storage/vaultManager";
+import type { AddToast } from "../shared/types";
+
+interface PasskeyOptions {
+  keyringRef: MutableRefObject<VaultKeyring | null>;
+  /** Called after a key slot change was saved. */
+  onSaved: () => Promise<unknown>;
+  addToast: AddToast;
+  registerInteraction: () => void;
+}
+
+export function usePasskeys({
+  keyringRef,
+  onSaved,
+  addToast,
+  registerInteraction,
+}: PasskeyOptions) {
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [supported, setSupported] = useState(false);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  useEffect(() => {
+    isPasskeyUnlockSupported()
+      .then(setSupported)
+      .catch(() => setSupported(false));
+  }, []);
+
+  const reloadPasskeys = useCallback(async () => {
+    setPasskeys(await loadPasskeys());
+  }, []);
+
+  const enroll = useCallback(
+    async (label: string) => {
+      if (!keyringRef.current) return false;
+      setIsEnrolling(true);
+      try {
+        keyringRef.current = await enrollPasskey(keyringRef.current, label.trim() || "Passkey");
+        await reloadPasskeys();
+        await onSaved();
+        addToast("Passkey added. It can now unlock the vault.", "success");
+        registerInteraction();
+        return true;
+      } catch (error) {
+        console.error(error);
+        addToast(
+          error instanceof Error ? error.message : "Passkey could not be added.",
+          "error",
+        );
+        return false;
+      } finally {
+        setIsEnrolling(false);
+      }
+    },
+    [addToast, keyringRef, onSaved, registerInteraction, reloadPasskeys],
+  );
+
+  const remove = useCallback(
+    async (passkey: PasskeySummary) => {
+      if (!keyringRef.current) return;
+      if (
+        !window.confirm(`Remove passkey "${passkey.label}"? It will no longer unlock the vault.`)
+      ) {
+        return;
+      }
+      try {
+        keyringRef.current = await removePasskey(keyringRef.current, passkey.id);
+        await reloadPasskeys();
+        await onSaved();
+        addToast("Passkey removed.", "success");
+        registerInteraction();
+      } catch (error) {
+        console.error(error);
+        addToast("Passkey could not be removed.", "error");
+      }
+    },
+    [addToast, keyringRef, onSaved, registerInteraction, reloadPasskeys],
+  );
+
+  return { passkeys, supported, isEnrolling, reloadPasskeys, enroll, remove };
+}
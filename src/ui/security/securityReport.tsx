@@ -0,0 +1,125 @@
+import { useMemo } from "react";
+import type { VaultEntry } from "../../core/crypto/cryptoClient";
+import { buildVaultHealthReport } from "../../core/security/vaultHealth";
+import { classNames } from "../shared/classNames";
+
+interface ReportItem {
+  entryId: string;
+  detail?: string;
+}
+
+interface SecurityReportProps {
+  entries: VaultEntry[];
+  maxAgeDays: number;
+  editingEntryId: string | null;
+  onFix: (entryId: string) => void;
+}
+
+/** Vault health report; only computed while it is mounted, i.e. while the report is open. */
+export function SecurityReport({
+  entries,
+  maxAgeDays,
+  editingEntryId,
+  onFix,
+}: SecurityReportProps) {
+  const report = useMemo(() => buildVaultHealthReport(entries, maxAgeDays), [entries, maxAgeDays]);
+
+  const renderItems = (items: ReportItem[]) => (
+    <ul className="vault-report__list">
+      {items.map(({ entryId, detail }) => {
+        const entry = entries.find((candidate) => candidate.id === entryId);
+        return (
+          <li key={entryId} className="vault-report__item">
+            <span className="vault-import__label">{entry?.label ?? "Entry"}</span>
+            {detail && <span className="vault-import__meta">{detail}</span>}
+            <button
+              type="button"
+              className="vault-button ghost"
+              disabled={editingEntryId === entryId}
+              onClick={() => onFix(entryId)}
+            >
+              Fix
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="vault-card vault-report">
+      <header className="vault-import__header">
+        <div>
+          <h2>Security report</h2>
+          <p>
+            {report.checkedEntries} passwords checked · passwords older than {maxAgeDays} days
+            count as old
+          </p>
+        </div>
+        <span
+          className={classNames(
+            "vault-badge",
+            report.score >= 80 ? "safe" : report.score >= 50 ? "warning" : "breached",
+          )}
+        >
+          Score {report.score}/100
+        </span>
+      </header>
+      {report.breached.length > 0 && (
+        <section className="vault-report__section">
+          <h3>Breached ({report.breached.length})</h3>
+          <p>These passwords appeared in a known breach. Change them first.</p>
+          {renderItems(report.breached.map((entryId) => ({ entryId })))}
+        </section>
+      )}
+      {report.reused.length > 0 && (
+        <section className="vault-report__section">
+          <h3>Reused ({report.reused.length})</h3>
+          <p>One leak unlocks every account in a group. Give each entry its own password.</p>
+          {report.reused.map((group) => (
+            <div key={group.map((reuse) => reuse.entryId).join()}>
+              {renderItems(
+                group.map((reuse) => ({
+                  entryId: reuse.entryId,
+                  detail: reuse.previous ? "Previous password" : undefined,
+                })),
+              )}
+            </div>
+          ))}
+        </section>
+      )}
+      {report.weak.weak.length + report.weak.medium.length > 0 && (
+        <section className="vault-report__section">
+          <h3>Weak ({report.weak.weak.length + report.weak.medium.length})</h3>
+          <p>Short or simple passwords. Replace them with generated ones.</p>
+          {renderItems([
+            ...report.weak.weak.map((entryId) => ({ entryId, detail: "Weak" })),
+            ...report.weak.medium.map((entryId) => ({ entryId, detail: "Medium" })),
+          ])}
+        </section>
+      )}
+      {report.old.length > 0 && (
+        <section className="vault-report__section">
+          <h3>Old ({report.old.length})</h3>
+          <p>Not changed for more than {maxAgeDays} days.</p>
+          {renderItems(
+            report.old.map((aged) => ({
+              entryId: aged.entryId,
+              detail: `${aged.ageDays} days old`,
+            })),
+          )}
+        </section>
+      )}
+      {report.missingUrl.length > 0 && (
+        <section className="vault-report__section">
+          <h3>Missing website ({report.missingUrl.length})</h3>
+          <p>Without a website the extension cannot offer these logins for autofill.</p>
+          {renderItems(report.missingUrl.map((entryId) => ({ entryId })))}
+        </section>
+      )}
+      {report.score === 100 && report.missingUrl.length === 0 && (
+        <p className="vault-report__empty">No issues found.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+export function formatTimestamp(timestamp?: number): string {
+  if (!timestamp) return "—";
+  const locale =
+    typeof navigator !== "undefined" && navigator.language
+      ? navigator.language
+      : "en-US";
+  return new Date(timestamp).toLocaleString(locale, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+}
@@ -0,0 +1,11 @@
+import type { VaultPayload } from "../../core/crypto/cryptoClient";
+
+export type ToastKind = "info" | "success" | "error";
+
+export type AddToast = (text: string, kind: ToastKind) => void;
+
+/** Applies `transform` to the unlocked vault and saves the result. */
+export type ApplyVaultUpdate = (
+  transform: (current: VaultPayload) => VaultPayload,
+  options?: { background?: boolean },
+) => Promise<void>;
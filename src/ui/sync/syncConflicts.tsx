@@ -0,0 +1,57 @@
+import type { EntryConflict } from "../../core/crypto/cryptoClient";
+import { extractDisplayUrl } from "../../core/utils/url";
+import { formatTimestamp } from "../shared/format";
+
+interface SyncConflictsProps {
+  conflicts: EntryConflict[];
+  onResolve: (id: string, choice: "local" | "remote") => void;
+}
+
+export function SyncConflicts({ conflicts, onResolve }: SyncConflictsProps) {
+  return (
+    <div className="vault-card vault-conflicts">
+      <header>
+        <h2>Sync conflicts</h2>
+        <p>
+          These entries were changed differently on two devices. The newer version is shown in
+          the list until you pick one.
+        </p>
+      </header>
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className="vault-conflict">
+          <h3>{conflict.local?.label ?? conflict.remote?.label ?? "Entry"}</h3>
+          <div className="vault-conflict__sides">
+            {(["local", "remote"] as const).map((side) => {
+              const version = conflict[side];
+              return (
+                <div key={side} className="vault-conflict__side">
+                  <span className="label">
+                    {side === "local" ? "This device" : "Other device"}
+                  </span>
+                  {version ? (
+                    <>
+                      <span>{version.username || "—"}</span>
+                      <span>{version.domain ?? extractDisplayUrl(version.url) ?? "—"}</span>
+                      <span className="vault-entry__timestamp">
+                        Updated: {formatTimestamp(version.updatedAt)}
+                      </span>
+                    </>
+                  ) : (
+                    <span>Deleted</span>
+                  )}
+                  <button
+                    type="button"
+                    className="vault-button secondary"
+                    onClick={() => onResolve(conflict.id, side)}
+                  >
+                    {version ? "Keep this version" : "Delete entry"}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from "react";
+import type { VaultKeyring, VaultPayload } from "../../core/crypto/cryptoClient";
+import { persistVault } from "../../core/storage/vaultManager";
+import { loadSyncState, type VaultMeta } from "../../core/storage/vaultStorage";
+import type { SyncEndpoint } from "../../core/sync/syncClient";
+import { mergeVaultCopies } from "../../core/sync/vaultMerge";
+import { syncVault } from "../../core/sync/vaultSync";
+import type { UserSettings } from "../../core/settings/userSettings";
+import type { AddToast } from "../shared/types";
+
+const SYNC_DEBOUNCE_MS = 1_500;
+
+export interface SyncStatus {
+  state: "idle" | "syncing" | "error";
+  message?: string;
+  lastSyncedAt?: number;
+}
+
+interface VaultSyncOptions {
+  settings: UserSettings;
+  unlocked: boolean;
+  /** Changes on every save, which is when a pending push is scheduled. */
+  meta: VaultMeta | null;
+  keyringRef: MutableRefObject<VaultKeyring | null>;
+  vaultRef: MutableRefObject<VaultPayload | null>;
+  setVault: (payload: VaultPayload) => void;
+  /** Reloads what a pulled envelope may have changed (key slots, meta). */
+  onSynced: () => Promise<unknown>;
+  addToast: AddToast;
+}
+
+function syncEndpointFrom(settings: UserSettings): SyncEndpoint | null {
+  if (!settings.syncEnabled || !settings.syncVaultId || !settings.syncToken) {
+    return null;
+  }
+  return {
+    serverUrl: settings.syncServerUrl,
+    vaultId: settings.syncVaultId,
+    token: settings.syncToken,
+  };
+}
+
+export function useVaultSync({
+  settings,
+  unlocked,
+  meta,
+  keyringRef,
+  vaultRef,
+  setVault,
+  onSynced,
+  addToast,
+}: VaultSyncOptions) {
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: "idle" });
+  const syncInFlightRef = useRef(false);
+  const syncQueuedRef = useRef(false);
+  const syncTimeoutRef = useRef<number | null>(null);
+  const syncEndpoint = useMemo(() => syncEndpointFrom(settings), [settings]);
+
+  useEffect(() => {
+    return () => {
+      if (syncTimeoutRef.current) {
+        window.clearTimeout(syncTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (unlocked) {
+      return;
+    }
+    setSyncStatus({ state: "idle" });
+    if (syncTimeoutRef.current) {
+      window.clearTimeout(syncTimeoutRef.current);
+      syncTimeoutRef.current = null;
+    }
+  }, [unlocked]);
+
+  const runSync = useCallback(
+    async (masterPassword?: string) => {
+      if (!syncEndpoint || !keyringRef.current || !vaultRef.current) return;
+      if (syncInFlightRef.current) {
+        syncQueuedRef.current = true;
+        return;
+      }
+      syncInFlightRef.current = true;
+      setSyncStatus((prev) => ({ ...prev, state: "syncing", message: undefined }));
+      const before = vaultRef.current;
+      try {
+        const result = await syncVault(syncEndpoint, keyringRef.current, before, masterPassword);
+        if (!keyringRef.current) {
+          return;
+        }
+        keyringRef.current = result.keyring;
+        if (vaultRef.current === before) {
+          vaultRef.current = result.payload;
+          setVault(result.payload);
+        } else if (result.status === "pulled" || result.status === "merged") {
+          // The vault was edited while syncing: keep both sides and push again.
+          const combined = mergeVaultCopies(before, vaultRef.current, result.payload);
+          vaultRef.current = combined;
+          setVault(combined);
+          await persistVault(result.keyring, combined);
+          syncQueuedRef.current = true;
+        }
+        await onSynced();
+        setSyncStatus({ state: "idle", lastSyncedAt: Date.now() });
+        if (result.status === "pulled" || result.status === "merged") {
+          addToast("Vault synced with the server.", "info");
+        }
+      } catch (error) {
+        console.error(error);
+        setSyncStatus((prev) => ({
+          ...prev,
+          state: "error",
+          message: error instanceof Error ? error.message : "Sync failed.",
+        }));
+      } finally {
+        syncInFlightRef.current = false;
+        if (syncQueuedRef.current) {
+          syncQueuedRef.current = false;
+          void runSync();
+        }
+      }
+    },
+    [addToast, keyringRef, onSynced, setVault, syncEndpoint, vaultRef],
+  );
+
+  useEffect(() => {
+    if (!unlocked || !syncEndpoint) {
+      return;
+    }
+    // Every save updates meta; push once the burst of saves settles.
+    let cancelled = false;
+    loadSyncState()
+      .then((state) => {
+        if (cancelled || !state.pending) return;
+        if (syncTimeoutRef.current) {
+          window.clearTimeout(syncTimeoutRef.current);
+        }
+        syncTimeoutRef.current = window.setTimeout(() => {
+          syncTimeoutRef.current = null;
+          void runSync();
+        }, SYNC_DEBOUNCE_MS);
+      })
+      .catch((error) => console.error(error));
+    return () => {
+      cancelled = true;
+    };
+  }, [meta, runSync, syncEndpoint, unlocked]);
+
+  return { syncEndpoint, syncStatus, runSync };
+}